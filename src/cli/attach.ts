@@ -0,0 +1,147 @@
+import { WebSocket } from 'ws'
+import type { WSClientMessage, WSServerMessage } from '../shared/types.js'
+
+// Ctrl-], the telnet escape key, detaches without sending anything to the tab
+const DETACH_KEY = '\x1d'
+
+export interface AttachOptions {
+  url: string // WebSocket endpoint, e.g. ws://localhost:17930/ws
+  agentId: string
+  tabId: string
+  takeControl: boolean // Take control from the client that has it
+}
+
+/**
+ * Attach the terminal to a tab like the web UI does: stdin in raw mode goes to the tab as input and the
+ * tab's output is written to stdout. Resolves with the exit code once detached or the connection ends.
+ */
+export function attach(options: AttachOptions): Promise<number> {
+  const { stdin, stdout, stderr } = process
+  const ws = new WebSocket(options.url)
+  let lastSeq = -1 // Highest seq written, output-sync and output can overlap
+  let attached = false
+  let hasControl = false
+  let detaching = false
+  let exitCode = 0
+
+  const send = (message: WSClientMessage) => {
+    if (ws.readyState === WebSocket.OPEN) {
+      ws.send(JSON.stringify(message))
+    }
+  }
+
+  // Notices go to stderr on their own line so they don't mix with the tab's output
+  const notice = (text: string) => {
+    stderr.write(`\r\n[aiagent] ${text}\r\n`)
+  }
+
+  const sendSize = () => {
+    if (hasControl && stdout.columns && stdout.rows) {
+      send({ type: 'resize', cols: stdout.columns, rows: stdout.rows })
+    }
+  }
+
+  const write = (data: string, seq: number) => {
+    if (seq <= lastSeq) return
+    lastSeq = seq
+    stdout.write(data)
+  }
+
+  const handleInput = (data: Buffer) => {
+    const text = data.toString('utf-8')
+    if (text.includes(DETACH_KEY)) {
+      detaching = true
+      send({ type: 'detach' })
+      ws.close()
+      return
+    }
+    if (hasControl) {
+      send({ type: 'input', data: text })
+    }
+  }
+
+  const handleMessage = (message: WSServerMessage) => {
+    if (detaching) return
+    switch (message.type) {
+      case 'attached':
+        attached = true
+        hasControl = message.hasControl
+        if (!hasControl && options.takeControl) {
+          send({ type: 'gain-control' })
+        } else if (!hasControl) {
+          notice('Another client has control, this terminal is view only (use --take to take control)')
+        }
+        sendSize()
+        break
+      case 'output-sync':
+        for (const chunk of message.chunks) {
+          write(chunk.data, chunk.seq)
+        }
+        break
+      case 'output':
+        if (message.tabId === options.tabId) {
+          write(message.data, message.seq)
+        }
+        break
+      case 'control-changed':
+        // Attaching takes free control before the attached message arrives
+        if (!attached || message.hasControl === hasControl) break
+        hasControl = message.hasControl
+        notice(hasControl ? 'You have control' : 'Control was taken by another client, this terminal is view only')
+        sendSize()
+        break
+      case 'tab-status':
+        if (message.tabId === options.tabId && message.status === 'stopped') {
+          notice('Process exited')
+          ws.close()
+        }
+        break
+      case 'tab-closed':
+        if (message.tabId === options.tabId) {
+          notice('Tab closed')
+          ws.close()
+        }
+        break
+      case 'error':
+        notice(message.message)
+        exitCode = 1
+        ws.close()
+        break
+    }
+  }
+
+  return new Promise((resolve) => {
+    ws.on('open', () => {
+      if (stdin.isTTY) {
+        stdin.setRawMode(true)
+      }
+      stdin.resume()
+      stdin.on('data', handleInput)
+      stdout.on('resize', sendSize)
+      send({ type: 'attach', agentId: options.agentId, tabId: options.tabId })
+    })
+
+    ws.on('message', (data) => {
+      try {
+        handleMessage(JSON.parse(data.toString()) as WSServerMessage)
+      } catch {
+        // Ignore messages that aren't JSON
+      }
+    })
+
+    ws.on('error', (error) => {
+      notice(`Connection failed: ${error.message}`)
+      exitCode = 1
+    })
+
+    ws.on('close', () => {
+      stdin.off('data', handleInput)
+      stdout.off('resize', sendSize)
+      if (stdin.isTTY) {
+        stdin.setRawMode(false)
+      }
+      stdin.pause()
+      resolve(exitCode)
+    })
+  })
+}
@@ -0,0 +1,139 @@
+import type {
+  Agent,
+  TabInfo,
+  CreateAgentRequest,
+  OutputSyncResponse,
+} from '../shared/types.js'
+
+export interface MergeResponse {
+  success: boolean
+  message: string
+  branch: string
+  targetBranch: string
+  conflicts?: string[]
+}
+
+// Error response of the server, keeps the status and body for commands that handle them
+export class ApiError extends Error {
+  status: number
+  body: Record<string, unknown>
+
+  constructor(status: number, body: Record<string, unknown>) {
+    super(typeof body.error === 'string' ? body.error : `Request failed with status ${status}`)
+    this.status = status
+    this.body = body
+  }
+}
+
+/**
+ * REST client for a running console server
+ */
+export class ConsoleClient {
+  readonly baseUrl: string
+
+  constructor(baseUrl: string) {
+    this.baseUrl = baseUrl.replace(/\/+$/, '')
+  }
+
+  /**
+   * URL of the server's WebSocket endpoint
+   */
+  getWebSocketUrl(): string {
+    return `${this.baseUrl.replace(/^http/, 'ws')}/ws`
+  }
+
+  async listAgents(): Promise<Agent[]> {
+    const { agents } = await this.request<{ agents: Agent[] }>('GET', '/api/agents')
+    return agents
+  }
+
+  /**
+   * Find an agent by id, unique id prefix or name
+   */
+  async findAgent(ref: string): Promise<Agent> {
+    const agents = await this.listAgents()
+    const exact = agents.find((a) => a.id === ref)
+    if (exact) return exact
+
+    const matches = agents.filter((a) => a.id.startsWith(ref))
+    const byName = matches.length > 0 ? matches : agents.filter((a) => a.name === ref)
+    if (byName.length === 0) {
+      throw new Error(`Agent not found: ${ref}`)
+    }
+    if (byName.length > 1) {
+      throw new Error(`"${ref}" matches several agents: ${byName.map((a) => `${a.id.slice(0, 8)} (${a.name})`).join(', ')}`)
+    }
+    return byName[0]
+  }
+
+  /**
+   * Find a tab of the agent by id or name; without a ref the first terminal tab, as task delivery uses
+   */
+  findTab(agent: Agent, ref?: string): TabInfo {
+    const tabs = agent.tabs || []
+    const tab = ref
+      ? tabs.find((t) => t.id === ref) || tabs.find((t) => t.name === ref)
+      : tabs.find((t) => t.kind !== 'setup')
+    if (!tab) {
+      throw new Error(ref ? `Tab not found: ${ref}` : `Agent has no tabs: ${agent.name}`)
+    }
+    return tab
+  }
+
+  createAgent(request: CreateAgentRequest): Promise<Agent> {
+    return this.request('POST', '/api/agents', request)
+  }
+
+  async deleteAgent(agentId: string, force: boolean, backup: boolean): Promise<void> {
+    const query = new URLSearchParams()
+    if (force) query.set('force', 'true')
+    if (backup) query.set('backup', 'true')
+    await this.request('DELETE', `/api/agents/${agentId}?${query}`)
+  }
+
+  mergeAgent(agentId: string, targetBranch?: string): Promise<MergeResponse> {
+    return this.request('POST', `/api/agents/${agentId}/merge`, { targetBranch })
+  }
+
+  startTab(agentId: string, tabId: string): Promise<TabInfo> {
+    return this.request('POST', `/api/agents/${agentId}/tabs/${tabId}/start`)
+  }
+
+  /**
+   * Write input to a tab; with force also when another client has control of it
+   */
+  async sendInput(agentId: string, tabId: string, data: string, force = false): Promise<void> {
+    await this.request('POST', `/api/agents/${agentId}/tabs/${tabId}/input`, { data, force })
+  }
+
+  /**
+   * Output chunks from a seq on; with waitMs the server holds the request until output arrives
+   */
+  getOutput(agentId: string, tabId: string, since: number, waitMs = 0): Promise<OutputSyncResponse> {
+    const query = new URLSearchParams({ since: String(since) })
+    if (waitMs > 0) query.set('wait', String(waitMs))
+    return this.request('GET', `/api/agents/${agentId}/tabs/${tabId}/output?${query}`)
+  }
+
+  private async request<T>(method: string, path: string, body?: unknown): Promise<T> {
+    let response: Response
+    try {
+      response = await fetch(`${this.baseUrl}${path}`, {
+        method,
+        headers: body !== undefined ? { 'Content-Type': 'application/json' } : undefined,
+        body: body !== undefined ? JSON.stringify(body) : undefined,
+      })
+    } catch {
+      throw new Error(`Cannot reach the server at ${this.baseUrl}`)
+    }
+
+    if (response.status === 204) {
+      return undefined as T
+    }
+    const data = (await response.json().catch(() => ({}))) as Record<string, unknown>
+    if (!response.ok) {
+      throw new ApiError(response.status, data)
+    }
+    return data as T
+  }
+}
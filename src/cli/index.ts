@@ -0,0 +1,223 @@
+#!/usr/bin/env node
+import path from 'path'
+import { parseArgs } from 'util'
+import { loadConfig } from '../shared/config.js'
+import type { Agent, DeleteCheck } from '../shared/types.js'
+import { ConsoleClient, ApiError } from './client.js'
+import { attach } from './attach.js'
+
+const FOLLOW_WAIT_MS = 30000
+const QUEUED_POLL_MS = 1000 // A queued tab answers long-polls at once until it starts
+
+const USAGE = `Usage: aiagent [--server <url>] <command> [options]
+
+Commands:
+  list [--json]                               List agents
+  create <name> <repo> [--base <ref>] [--branch <name>] [--profile <name>]
+                                              Create an agent with a worktree of the repository
+  delete <agent> [--force] [--backup]         Delete an agent, --force discards uncommitted and unmerged work
+  merge <agent> [--into <branch>]             Merge the agent's branch into the main branch of its repository
+  tail <agent> [--tab <tab>] [-f]             Print a tab's output, -f keeps printing new output
+                                              until the tab stops
+  attach <agent> [--tab <tab>] [--take]       Attach the terminal to a tab, Ctrl-] detaches
+  send <agent> [text] [--tab <tab>] [--no-enter] [--force]
+                                              Type text into a tab, read from stdin without text;
+                                              --force types into a tab another client controls
+
+<agent> is an agent id, a unique id prefix or a name; <tab> is a tab id or name and defaults to the
+agent's first tab. The server defaults to $AIAGENT_SERVER or http://localhost:<port of config.json>.
+`
+
+function formatAgent(agent: Agent): string[] {
+  const running = (agent.tabs || []).filter((t) => ['running', 'busy', 'waiting'].includes(t.status)).length
+  return [
+    agent.id.slice(0, 8),
+    agent.name,
+    agent.archivedAt ? 'archived' : agent.status,
+    agent.branch,
+    `${running}/${agent.tabs?.length || 0}`,
+  ]
+}
+
+function printTable(rows: string[][]): void {
+  const widths = rows[0].map((_, i) => Math.max(...rows.map((row) => row[i].length)))
+  for (const row of rows) {
+    console.log(row.map((cell, i) => cell.padEnd(widths[i])).join('  ').trimEnd())
+  }
+}
+
+async function readStdin(): Promise<string> {
+  const chunks: Buffer[] = []
+  for await (const chunk of process.stdin) {
+    chunks.push(chunk as Buffer)
+  }
+  return Buffer.concat(chunks).toString('utf-8')
+}
+
+async function main(): Promise<number> {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      server: { type: 'string' },
+      json: { type: 'boolean' },
+      base: { type: 'string' },
+      branch: { type: 'string' },
+      profile: { type: 'string' },
+      force: { type: 'boolean' },
+      backup: { type: 'boolean' },
+      into: { type: 'string' },
+      tab: { type: 'string' },
+      follow: { type: 'boolean', short: 'f' },
+      take: { type: 'boolean' },
+      'no-enter': { type: 'boolean' },
+      help: { type: 'boolean', short: 'h' },
+    },
+  })
+
+  const [command, ...args] = positionals
+  if (!command || values.help) {
+    process.stdout.write(USAGE)
+    return command || values.help ? 0 : 1
+  }
+
+  const server = values.server || process.env.AIAGENT_SERVER || `http://localhost:${loadConfig().port}`
+  const client = new ConsoleClient(server)
+
+  const requireArgs = (count: number, usage: string) => {
+    if (args.length < count) {
+      throw new Error(`Usage: aiagent ${usage}`)
+    }
+  }
+
+  switch (command) {
+    case 'list': {
+      const agents = await client.listAgents()
+      if (values.json) {
+        console.log(JSON.stringify(agents, null, 2))
+      } else if (agents.length === 0) {
+        console.log('No agents')
+      } else {
+        printTable([['ID', 'NAME', 'STATUS', 'BRANCH', 'TABS'], ...agents.map(formatAgent)])
+      }
+      return 0
+    }
+
+    case 'create': {
+      requireArgs(2, 'create <name> <repo>')
+      const agent = await client.createAgent({
+        name: args[0],
+        // Relative to where the command runs, not to the server's directory
+        sourceRepo: path.resolve(args[1]),
+        baseRef: values.base,
+        branch: values.branch,
+        profile: values.profile,
+      })
+      console.log(`Created ${agent.name} (${agent.id}) on ${agent.branch}`)
+      console.log(agent.workDir)
+      return 0
+    }
+
+    case 'delete': {
+      requireArgs(1, 'delete <agent>')
+      const agent = await client.findAgent(args[0])
+      try {
+        await client.deleteAgent(agent.id, !!values.force, !!values.backup)
+      } catch (error) {
+        if (!(error instanceof ApiError) || error.status !== 409) throw error
+        const check = error.body as unknown as DeleteCheck
+        console.error(`${agent.name} has work that would be lost:`)
+        for (const line of check.dirtyFiles) {
+          console.error(`  ${line}`)
+        }
+        if (check.unmergedCommits > 0) {
+          console.error(`  ${check.unmergedCommits} unmerged commit(s)`)
+        }
+        console.error('Use --force to delete anyway, with --backup to keep a backup ref')
+        return 1
+      }
+      console.log(`Deleted ${agent.name}`)
+      return 0
+    }
+
+    case 'merge': {
+      requireArgs(1, 'merge <agent>')
+      const agent = await client.findAgent(args[0])
+      const result = await client.mergeAgent(agent.id, values.into)
+      console.log(result.message)
+      for (const file of result.conflicts || []) {
+        console.log(`  ${file}`)
+      }
+      return result.success ? 0 : 1
+    }
+
+    case 'tail': {
+      requireArgs(1, 'tail <agent>')
+      const agent = await client.findAgent(args[0])
+      const tab = client.findTab(agent, values.tab)
+      let since = 0
+      let waitMs = 0
+      for (;;) {
+        const { chunks, lastSeq, hasMore } = await client.getOutput(agent.id, tab.id, since, waitMs)
+        for (const chunk of chunks) {
+          process.stdout.write(chunk.data)
+          since = chunk.seq + 1
+        }
+        if (hasMore) continue
+        if (!values.follow) return 0
+
+        // Nothing new after a long-poll: the tab may not be running, so no output is coming
+        if (waitMs > 0 && chunks.length === 0) {
+          const { status } = client.findTab(await client.findAgent(agent.id), tab.id)
+          if (status === 'stopped' || status === 'idle') {
+            console.error(`aiagent: ${tab.name} is not running`)
+            return 0
+          }
+          if (status === 'queued') {
+            await new Promise((resolve) => setTimeout(resolve, QUEUED_POLL_MS))
+          }
+        }
+
+        // Caught up: long-poll for output after the last seq
+        since = Math.max(since, lastSeq + 1)
+        waitMs = FOLLOW_WAIT_MS
+      }
+    }
+
+    case 'attach': {
+      requireArgs(1, 'attach <agent>')
+      const agent = await client.findAgent(args[0])
+      const tab = client.findTab(agent, values.tab)
+      if (!process.stdin.isTTY) {
+        throw new Error('attach needs a terminal, use send to write input from a script')
+      }
+      return attach({
+        url: client.getWebSocketUrl(),
+        agentId: agent.id,
+        tabId: tab.id,
+        takeControl: !!values.take,
+      })
+    }
+
+    case 'send': {
+      requireArgs(1, 'send <agent> [text]')
+      const agent = await client.findAgent(args[0])
+      const tab = client.findTab(agent, values.tab)
+      const text = args.length > 1 ? args.slice(1).join(' ') : (await readStdin()).replace(/\n$/, '')
+      if (tab.status === 'idle' || tab.status === 'stopped') {
+        await client.startTab(agent.id, tab.id)
+      }
+      await client.sendInput(agent.id, tab.id, values['no-enter'] ? text : `${text}\r`, !!values.force)
+      return 0
+    }
+
+    default:
+      throw new Error(`Unknown command: ${command}\n\n${USAGE}`)
+  }
+}
+
+main()
+  .then((code) => process.exit(code))
+  .catch((error) => {
+    console.error(`aiagent: ${error instanceof Error ? error.message : error}`)
+    process.exit(1)
+  })
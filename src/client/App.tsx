@@ -1,18 +1,29 @@
-import { useState, useRef, useCallback, useEffect } from 'react'
+import { useState, useRef, useCallback, useEffect, useMemo } from 'react'
 import Sidebar from './components/Sidebar'
 import Terminal, { TerminalHandle, TerminalSettings } from './components/Terminal'
 import TabBar from './components/TabBar'
 import SplitPane from './components/SplitPane'
 import CreateAgentDialog from './components/CreateAgentDialog'
+import ImportAgentDialog from './components/ImportAgentDialog'
+import BatchCreateDialog from './components/BatchCreateDialog'
 import CreatePRDialog from './components/CreatePRDialog'
 import SettingsDialog from './components/SettingsDialog'
+import EnvironmentDialog, { EnvironmentTarget } from './components/EnvironmentDialog'
+import RepoSettingsDialog from './components/RepoSettingsDialog'
+import TaskQueueDialog, { TaskQueueTarget } from './components/TaskQueueDialog'
+import BroadcastDialog from './components/BroadcastDialog'
+import SnippetsDialog from './components/SnippetsDialog'
+import JobsDialog, { JobsTarget, JobOutput } from './components/JobsDialog'
 import { useAgents } from './hooks/useAgents'
 import { useWebSocket } from './hooks/useWebSocket'
-import type { TabInfo, OutputChunk, BufferStats } from '../shared/types'
+import type { TabInfo, OutputChunk, BufferStats, CreateAgentRequest, ImportAgentRequest, BatchCreateAgentsRequest, UpdateAgentRequest, LaunchProfile, RuleFiring, AgentResources, AgentTasks, BroadcastTarget, BroadcastResult, JobInfo, JobStream } from '../shared/types'
 import styles from './App.module.css'
 
 type SplitMode = 'none' | 'horizontal' | 'vertical'
 
+const MAX_JOB_OUTPUT = 1024 * 1024 // Streamed job output kept per stream
+const MAX_RULE_NOTICES = 20 // Notify actions kept in the toolbar until dismissed
+
 interface PanelState {
   agentId: string | null
   tabId: string | null
@@ -53,9 +64,14 @@ function formatBytes(bytes: number): string {
 
 export default function App() {
   const [showCreateDialog, setShowCreateDialog] = useState(false)
+  const [showImportDialog, setShowImportDialog] = useState(false)
+  const [showBatchDialog, setShowBatchDialog] = useState(false)
   const [showSettingsDialog, setShowSettingsDialog] = useState(false)
   const [prDialogAgentId, setPRDialogAgentId] = useState<string | null>(null)
+  const [envTarget, setEnvTarget] = useState<EnvironmentTarget | null>(null)
+  const [settingsRepo, setSettingsRepo] = useState<string | null>(null)
   const [terminalSettings, setTerminalSettings] = useState<TerminalSettings | undefined>()
+  const [launchProfiles, setLaunchProfiles] = useState<LaunchProfile[]>([])
 
   // Split view state
   const [splitMode, setSplitMode] = useState<SplitMode>('none')
@@ -67,6 +83,16 @@ export default function App() {
 
   // Buffer stats per agentId:tabId
   const [bufferStats, setBufferStats] = useState<Map<string, BufferStats>>(new Map())
+  const [resources, setResources] = useState<Map<string, AgentResources>>(new Map())
+  const [taskTarget, setTaskTarget] = useState<TaskQueueTarget | null>(null)
+  const [taskQueues, setTaskQueues] = useState<Map<string, AgentTasks>>(new Map())
+  const [showBroadcastDialog, setShowBroadcastDialog] = useState(false)
+  const [broadcastResults, setBroadcastResults] = useState<BroadcastResult[] | null>(null)
+  const [snippetPanel, setSnippetPanel] = useState<number | null>(null) // Panel the snippets dialog inserts into
+  const [jobTarget, setJobTarget] = useState<JobsTarget | null>(null)
+  const [jobUpdates, setJobUpdates] = useState<Map<string, JobInfo>>(new Map()) // Latest push per job id
+  const [jobOutput, setJobOutput] = useState<JobOutput | null>(null)
+  const [ruleNotices, setRuleNotices] = useState<RuleFiring[]>([]) // Notify actions without desktop notifications
 
   // Terminal refs for each panel
   const terminalRef0 = useRef<TerminalHandle>(null)
@@ -87,12 +113,30 @@ export default function App() {
       })
   }, [])
 
+  // Fetch launch profiles on mount
+  useEffect(() => {
+    fetch('/api/launch-profiles')
+      .then((res) => res.json())
+      .then((data) => setLaunchProfiles(data.profiles || []))
+      .catch(() => {
+        // Tabs fall back to the default shell
+      })
+  }, [])
+
   const {
     agents,
     loading,
     createAgent,
+    createAgents,
+    importAgent,
+    updateAgent,
     deleteAgent,
+    archiveAgent,
+    restoreAgent,
+    runSetup,
+    clearMark,
     updateAgentStatus,
+    updateTabStatus,
     updateAgents,
     createPR,
   } = useAgents()
@@ -165,10 +209,42 @@ export default function App() {
     console.error('WebSocket error:', message)
   }, [])
 
-  const handleTabStatus = useCallback((agentId: string, tabId: string, status: TabInfo['status']) => {
-    // Tab status is handled through agents-updated
+  // Notify actions of trigger rules show a desktop notification when the user allowed them,
+  // otherwise a notice in the toolbar
+  const handleRuleFired = useCallback((firing: RuleFiring) => {
+    if (!firing.notify) return
+    if ('Notification' in window && Notification.permission === 'granted') {
+      new Notification(`${firing.agentName}: ${firing.notify}`, { body: firing.match })
+    } else {
+      setRuleNotices((prev) => [...prev, firing].slice(-MAX_RULE_NOTICES))
+    }
+  }, [])
+
+  // Each sample covers every agent with running tabs, the rest have no usage
+  const handleResources = useCallback((samples: AgentResources[]) => {
+    setResources(new Map(samples.map((r) => [r.agentId, r])))
+  }, [])
+
+  const handleTasksUpdated = useCallback((agentId: string, tasks: AgentTasks) => {
+    setTaskQueues((prev) => new Map(prev).set(agentId, tasks))
+  }, [])
+
+  const handleJobUpdated = useCallback((job: JobInfo) => {
+    setJobUpdates((prev) => new Map(prev).set(job.id, job))
+  }, [])
+
+  // Keep about as much as the server does, the oldest output goes first
+  const handleJobOutput = useCallback((jobId: string, stream: JobStream, data: string) => {
+    setJobOutput((prev) =>
+      prev?.jobId === jobId ? { ...prev, [stream]: (prev[stream] + data).slice(-MAX_JOB_OUTPUT) } : prev
+    )
   }, [])
 
+  // Activity changes (busy/waiting) arrive without an agents-updated
+  const handleTabStatus = useCallback((agentId: string, tabId: string, status: TabInfo['status']) => {
+    updateTabStatus(agentId, tabId, status)
+  }, [updateTabStatus])
+
   const handleTabCreated = useCallback((agentId: string, tab: TabInfo) => {
     // Tab created is handled through agents-updated
   }, [])
@@ -193,14 +269,17 @@ export default function App() {
     attach,
     detach,
     sendInput,
+    broadcastInput,
     resize,
     startTab,
     stopTab,
     gainControl,
     createTab,
     closeTab,
+    setRestartPolicy,
     syncOutput,
     getBufferStats,
+    watchJob,
   } = useWebSocket({
     onOutput: handleOutput,
     onOutputSync: handleOutputSync,
@@ -210,9 +289,32 @@ export default function App() {
     onTabStatus: handleTabStatus,
     onTabCreated: handleTabCreated,
     onTabClosed: handleTabClosed,
+    onRuleFired: handleRuleFired,
+    onResources: handleResources,
+    onTasksUpdated: handleTasksUpdated,
+    onBroadcastResult: setBroadcastResults,
+    onJobUpdated: handleJobUpdated,
+    onJobOutput: handleJobOutput,
     onError: handleError,
   })
 
+  const handleBroadcast = useCallback((data: string, targets: BroadcastTarget[]) => {
+    setBroadcastResults(null)
+    broadcastInput(data, targets)
+  }, [broadcastInput])
+
+  const handleWatchJob = useCallback((jobId: string | null) => {
+    if (!jobTarget) return
+    setJobOutput(jobId ? { jobId, stdout: '', stderr: '' } : null)
+    watchJob(jobTarget.agentId, jobId)
+  }, [jobTarget, watchJob])
+
+  // Memoized, the dialog merges the list whenever it changes
+  const liveJobs = useMemo(
+    () => Array.from(jobUpdates.values()).filter((job) => job.agentId === jobTarget?.agentId),
+    [jobUpdates, jobTarget]
+  )
+
   // Get current panel state
   const currentPanel = panels[activePanel]
   const selectedAgentId = currentPanel.agentId
@@ -282,11 +384,11 @@ export default function App() {
     attach(panel.agentId, panel.tabId, 0)
   }, [panels, attach])
 
-  const handleCreateTab = useCallback((panelIndex?: number) => {
+  const handleCreateTab = useCallback((panelIndex?: number, profile?: string) => {
     const targetPanel = panelIndex ?? activePanel
     const panel = panels[targetPanel]
     if (panel.agentId) {
-      createTab(panel.agentId)
+      createTab(panel.agentId, undefined, profile)
     }
   }, [panels, activePanel, createTab])
 
@@ -298,21 +400,90 @@ export default function App() {
     }
   }, [panels, activePanel, closeTab])
 
-  const handleCreateAgent = useCallback(async (name: string, sourceRepo: string) => {
-    const agent = await createAgent({ name, sourceRepo })
+  const handleCreateAgent = useCallback(async (request: CreateAgentRequest) => {
+    const agent = await createAgent(request)
     handleSelectAgent(agent.id)
   }, [createAgent, handleSelectAgent])
 
+  const handleBatchCreate = useCallback(async (request: BatchCreateAgentsRequest) => {
+    const result = await createAgents(request)
+    if (result.agents.length > 0) {
+      handleSelectAgent(result.agents[0].id)
+    }
+    return result
+  }, [createAgents, handleSelectAgent])
+
+  const handleImportAgent = useCallback(async (request: ImportAgentRequest) => {
+    const agent = await importAgent(request)
+    handleSelectAgent(agent.id)
+  }, [importAgent, handleSelectAgent])
+
+  const handleUpdateAgent = useCallback(async (agentId: string, updates: UpdateAgentRequest) => {
+    await updateAgent(agentId, updates)
+  }, [updateAgent])
+
   const handleDeleteAgent = useCallback(async (agentId: string) => {
-    if (confirm('Are you sure you want to delete this agent?')) {
-      await deleteAgent(agentId)
+    if (!confirm('Are you sure you want to delete this agent?')) {
+      return
+    }
+    try {
+      const blocked = await deleteAgent(agentId)
+      if (blocked) {
+        const files = blocked.dirtyFiles.length
+        const message = `This agent has ${files} uncommitted file(s) and ${blocked.unmergedCommits} unmerged commit(s).\n\n`
+          + `Delete anyway? The worktree state will be saved to refs/aiagent-backup/${agentId}.`
+        if (!confirm(message)) {
+          return
+        }
+        await deleteAgent(agentId, { force: true, backup: true })
+      }
       // Clear any panels showing this agent
       setPanels(prev => prev.map(panel =>
         panel.agentId === agentId ? { agentId: null, tabId: null } : panel
       ) as [PanelState, PanelState])
+    } catch (error) {
+      alert(`Failed to delete: ${error instanceof Error ? error.message : 'Unknown error'}`)
     }
   }, [deleteAgent])
 
+  const handleArchiveAgent = useCallback(async (agentId: string) => {
+    if (!confirm('Archive this agent? Its tabs will be stopped and the worktree removed; the branch is kept.')) {
+      return
+    }
+    try {
+      await archiveAgent(agentId)
+      setPanels(prev => prev.map(panel =>
+        panel.agentId === agentId ? { agentId: null, tabId: null } : panel
+      ) as [PanelState, PanelState])
+    } catch (error) {
+      alert(`Failed to archive: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    }
+  }, [archiveAgent])
+
+  const handleRestoreAgent = useCallback(async (agentId: string) => {
+    try {
+      await restoreAgent(agentId)
+    } catch (error) {
+      alert(`Failed to restore: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    }
+  }, [restoreAgent])
+
+  const handleRunSetup = useCallback(async (agentId: string) => {
+    try {
+      await runSetup(agentId)
+    } catch (error) {
+      alert(`Failed to run setup: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    }
+  }, [runSetup])
+
+  const handleClearMark = useCallback(async (agentId: string) => {
+    try {
+      await clearMark(agentId)
+    } catch (error) {
+      alert(`Failed to clear mark: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    }
+  }, [clearMark])
+
   const handleCreatePR = useCallback(async (title: string, body: string) => {
     if (!prDialogAgentId) return
     const prUrl = await createPR(prDialogAgentId, title, body)
@@ -412,8 +583,12 @@ export default function App() {
           <div className={styles.bufferInfo}>
             {stats && (
               <>
-                <span className={styles.bufferStat}>
-                  Server: {formatBytes(stats.totalSize)} ({stats.chunkCount} chunks, seq {stats.firstSeq}-{stats.lastSeq})
+                <span
+                  className={styles.bufferStat}
+                  title={stats.spillPath ? `Evicted output is saved to ${stats.spillPath}` : undefined}
+                >
+                  Server: {formatBytes(stats.totalSize)} / {formatBytes(stats.limitBytes)} ({stats.chunkCount} chunks, seq {stats.firstSeq}-{stats.lastSeq}
+                  {stats.evictedBytes > 0 && `, ${formatBytes(stats.evictedBytes)} evicted`})
                 </span>
                 <span className={styles.bufferStat}>
                   Local: seq {localSeq}
@@ -431,6 +606,13 @@ export default function App() {
               </>
             )}
           </div>
+          <button
+            className={styles.reloadBtn}
+            onClick={() => setSnippetPanel(panelIndex)}
+            title="Insert a snippet into this terminal"
+          >
+            ✎ Snippets
+          </button>
           {isActive && (
             <div className={styles.controlStatus}>
               {hasControl ? (
@@ -449,14 +631,16 @@ export default function App() {
         <TabBar
           tabs={tabs}
           activeTabId={panel.tabId}
+          profiles={launchProfiles}
           onSelectTab={(tabId) => {
             if (panelIndex !== activePanel) {
               setActivePanel(panelIndex)
             }
             handleSelectTab(tabId, panelIndex)
           }}
-          onCreateTab={() => handleCreateTab(panelIndex)}
+          onCreateTab={(profile) => handleCreateTab(panelIndex, profile)}
           onCloseTab={(tabId) => handleCloseTab(tabId, panelIndex)}
+          onSetRestartPolicy={(tabId, policy) => setRestartPolicy(agent.id, tabId, policy)}
         />
         <div className={styles.terminalContainer}>
           <Terminal
@@ -479,16 +663,31 @@ export default function App() {
     )
   }
 
+  const latestNotice = ruleNotices[ruleNotices.length - 1]
+
   return (
     <div className={styles.container}>
       <Sidebar
         agents={agents}
+        resources={resources}
         selectedAgentId={selectedAgentId}
         onSelectAgent={handleSelectAgent}
         onCreateAgent={() => setShowCreateDialog(true)}
+        onImportAgent={() => setShowImportDialog(true)}
+        onBatchCreate={() => setShowBatchDialog(true)}
+        onBroadcast={() => setShowBroadcastDialog(true)}
+        onUpdateAgent={handleUpdateAgent}
         onDeleteAgent={handleDeleteAgent}
+        onArchiveAgent={handleArchiveAgent}
+        onRestoreAgent={handleRestoreAgent}
         onCreatePR={(agentId) => setPRDialogAgentId(agentId)}
         onMerge={handleMerge}
+        onEditEnvironment={setEnvTarget}
+        onRunSetup={handleRunSetup}
+        onEditTasks={setTaskTarget}
+        onOpenJobs={setJobTarget}
+        onClearMark={handleClearMark}
+        onOpenRepoSettings={setSettingsRepo}
         onOpenSettings={() => setShowSettingsDialog(true)}
       />
 
@@ -510,6 +709,25 @@ export default function App() {
               ⬒
             </button>
           </div>
+          {latestNotice && (
+            <div className={styles.ruleNotice} title={`${latestNotice.ruleName}: ${latestNotice.match}`}>
+              <button
+                className={styles.ruleNoticeText}
+                onClick={() => {
+                  if (agents.some((a) => a.id === latestNotice.agentId)) {
+                    handleSelectAgent(latestNotice.agentId)
+                  }
+                  setRuleNotices((prev) => prev.slice(0, -1))
+                }}
+              >
+                🔔 {latestNotice.agentName}: {latestNotice.notify}
+                {ruleNotices.length > 1 && ` (+${ruleNotices.length - 1} more)`}
+              </button>
+              <button className={styles.ruleNoticeClose} onClick={() => setRuleNotices([])} title="Dismiss all">
+                ×
+              </button>
+            </div>
+          )}
           <div className={styles.connectionStatus}>
             <span
               className={styles.statusDot}
@@ -537,6 +755,18 @@ export default function App() {
         onCreate={handleCreateAgent}
       />
 
+      <ImportAgentDialog
+        isOpen={showImportDialog}
+        onClose={() => setShowImportDialog(false)}
+        onImport={handleImportAgent}
+      />
+
+      <BatchCreateDialog
+        isOpen={showBatchDialog}
+        onClose={() => setShowBatchDialog(false)}
+        onCreate={handleBatchCreate}
+      />
+
       <CreatePRDialog
         isOpen={!!prDialogAgentId}
         agentName={prDialogAgent?.name || ''}
@@ -544,8 +774,49 @@ export default function App() {
         onCreate={handleCreatePR}
       />
 
+      <EnvironmentDialog target={envTarget} onClose={() => setEnvTarget(null)} />
+
+      <BroadcastDialog
+        isOpen={showBroadcastDialog}
+        agents={agents}
+        results={broadcastResults}
+        onSend={handleBroadcast}
+        onClose={() => {
+          setShowBroadcastDialog(false)
+          setBroadcastResults(null)
+        }}
+      />
+
+      <SnippetsDialog
+        agent={snippetPanel !== null ? agents.find((a) => a.id === panels[snippetPanel].agentId) || null : null}
+        hasControl={snippetPanel === activePanel && hasControl}
+        onInsert={(text) => {
+          if (snippetPanel === null) return
+          terminalRefs[snippetPanel].current?.paste(text)
+          terminalRefs[snippetPanel].current?.focus()
+        }}
+        onClose={() => setSnippetPanel(null)}
+      />
+
+      <TaskQueueDialog
+        target={taskTarget}
+        liveTasks={taskTarget ? taskQueues.get(taskTarget.agentId) : undefined}
+        onClose={() => setTaskTarget(null)}
+      />
+
+      <JobsDialog
+        target={jobTarget}
+        liveJobs={liveJobs}
+        output={jobOutput}
+        onWatch={handleWatchJob}
+        onClose={() => setJobTarget(null)}
+      />
+
+      <RepoSettingsDialog repo={settingsRepo} onClose={() => setSettingsRepo(null)} />
+
       <SettingsDialog
         isOpen={showSettingsDialog}
+        agents={agents}
         onClose={() => setShowSettingsDialog(false)}
         onTerminalSettingsChange={setTerminalSettings}
       />
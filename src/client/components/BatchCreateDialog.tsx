@@ -0,0 +1,305 @@
+import { useState, useEffect } from 'react'
+import type { BatchCreateAgentsRequest, BatchCreateAgentsResponse, LaunchProfile } from '../../shared/types'
+import styles from './CreateAgentDialog.module.css'
+
+interface BatchCreateDialogProps {
+  isOpen: boolean
+  onClose: () => void
+  onCreate: (request: BatchCreateAgentsRequest) => Promise<BatchCreateAgentsResponse>
+}
+
+type BatchMode = 'tasks' | 'count'
+
+export default function BatchCreateDialog({
+  isOpen,
+  onClose,
+  onCreate,
+}: BatchCreateDialogProps) {
+  const [mode, setMode] = useState<BatchMode>('tasks')
+  const [sourceRepo, setSourceRepo] = useState('')
+  const [profile, setProfile] = useState('')
+  const [baseRef, setBaseRef] = useState('')
+  const [tasks, setTasks] = useState('')
+  const [name, setName] = useState('')
+  const [count, setCount] = useState('3')
+  const [task, setTask] = useState('')
+  const [sendTasks, setSendTasks] = useState(true)
+  const [recentRepos, setRecentRepos] = useState<string[]>([])
+  const [profiles, setProfiles] = useState<LaunchProfile[]>([])
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (isOpen) {
+      fetchRecentRepos()
+      fetchProfiles()
+    }
+  }, [isOpen])
+
+  const fetchRecentRepos = async () => {
+    try {
+      const response = await fetch('/api/recent-repos')
+      if (response.ok) {
+        const data = await response.json()
+        setRecentRepos(data.repos || [])
+      }
+    } catch {
+      // Silently fail - recent repos is optional
+    }
+  }
+
+  const fetchProfiles = async () => {
+    try {
+      const response = await fetch('/api/launch-profiles')
+      if (response.ok) {
+        const data = await response.json()
+        setProfiles(data.profiles || [])
+      }
+    } catch {
+      // Silently fail - the default shell is used without profiles
+    }
+  }
+
+  if (!isOpen) return null
+
+  const taskList = tasks.split('\n').map((t) => t.trim()).filter(Boolean)
+  const canSubmit = !!sourceRepo.trim() && (mode === 'tasks' ? taskList.length > 0 : !!name.trim() && Number(count) > 0)
+
+  const reset = () => {
+    setSourceRepo('')
+    setProfile('')
+    setBaseRef('')
+    setTasks('')
+    setName('')
+    setCount('3')
+    setTask('')
+    setError(null)
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setError(null)
+    setLoading(true)
+
+    try {
+      const common = {
+        sourceRepo: sourceRepo.trim(),
+        profile: profile || undefined,
+        baseRef: baseRef.trim() || undefined,
+        sendTasks,
+      }
+      const result = await onCreate(
+        mode === 'tasks'
+          ? { ...common, tasks: taskList }
+          : { ...common, name: name.trim(), count: Number(count), task: task.trim() || undefined }
+      )
+      if (result.errors.length > 0) {
+        // Keep the dialog open so the failures can be read, the created agents are already in the list
+        setError(
+          `Created ${result.agents.length} agents. Failed: ` +
+            result.errors.map((e) => `${e.name} (${e.error})`).join('; ')
+        )
+        return
+      }
+      reset()
+      onClose()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create agents')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleClose = () => {
+    if (!loading) {
+      reset()
+      onClose()
+    }
+  }
+
+  return (
+    <div className={styles.overlay} onClick={handleClose}>
+      <div className={styles.dialog} onClick={(e) => e.stopPropagation()}>
+        <div className={styles.header}>
+          <h2 className={styles.title}>Create Agents from Tasks</h2>
+          <button className={styles.closeButton} onClick={handleClose}>
+            ×
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit}>
+          <div className={styles.field}>
+            <label className={styles.label} htmlFor="batchSourceRepo">
+              Source Repository Path
+            </label>
+            <input
+              id="batchSourceRepo"
+              type="text"
+              className={styles.input}
+              value={sourceRepo}
+              onChange={(e) => setSourceRepo(e.target.value)}
+              placeholder="/path/to/your/git/repo"
+              list="batchRecentRepos"
+              required
+              autoFocus
+            />
+            <datalist id="batchRecentRepos">
+              {recentRepos.map((repo) => (
+                <option key={repo} value={repo} />
+              ))}
+            </datalist>
+          </div>
+
+          <div className={styles.field}>
+            <label className={styles.label} htmlFor="batchBaseRef">
+              Base Branch
+            </label>
+            <input
+              id="batchBaseRef"
+              type="text"
+              className={styles.input}
+              value={baseRef}
+              onChange={(e) => setBaseRef(e.target.value)}
+              placeholder="HEAD"
+            />
+          </div>
+
+          {profiles.length > 0 && (
+            <div className={styles.field}>
+              <label className={styles.label} htmlFor="batchProfile">
+                Launch Profile
+              </label>
+              <select
+                id="batchProfile"
+                className={styles.select}
+                value={profile}
+                onChange={(e) => setProfile(e.target.value)}
+              >
+                <option value="">Shell</option>
+                {profiles.map((p) => (
+                  <option key={p.name} value={p.name}>
+                    {p.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
+
+          <div className={styles.field}>
+            <label className={styles.label} htmlFor="batchMode">
+              Create
+            </label>
+            <select
+              id="batchMode"
+              className={styles.select}
+              value={mode}
+              onChange={(e) => setMode(e.target.value as BatchMode)}
+            >
+              <option value="tasks">One agent per task</option>
+              <option value="count">A number of agents for the same task</option>
+            </select>
+          </div>
+
+          {mode === 'tasks' ? (
+            <div className={styles.field}>
+              <label className={styles.label} htmlFor="batchTasks">
+                Tasks
+              </label>
+              <textarea
+                id="batchTasks"
+                className={styles.input}
+                value={tasks}
+                onChange={(e) => setTasks(e.target.value)}
+                placeholder={'Fix the flaky login test\nAdd pagination to the orders API'}
+                rows={6}
+              />
+              <p className={styles.hint}>
+                One task per line. Each agent is named from its task, which also
+                becomes the agent's description.
+              </p>
+            </div>
+          ) : (
+            <>
+              <div className={styles.field}>
+                <label className={styles.label} htmlFor="batchName">
+                  Agent Name
+                </label>
+                <input
+                  id="batchName"
+                  type="text"
+                  className={styles.input}
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  placeholder="attempt"
+                />
+              </div>
+
+              <div className={styles.field}>
+                <label className={styles.label} htmlFor="batchCount">
+                  Number of Agents
+                </label>
+                <input
+                  id="batchCount"
+                  type="number"
+                  min={1}
+                  max={20}
+                  className={styles.input}
+                  value={count}
+                  onChange={(e) => setCount(e.target.value)}
+                />
+                <p className={styles.hint}>
+                  Agents are named "{name.trim() || 'attempt'} 1" to "{name.trim() || 'attempt'} {count || 'N'}".
+                </p>
+              </div>
+
+              <div className={styles.field}>
+                <label className={styles.label} htmlFor="batchTask">
+                  Task
+                </label>
+                <textarea
+                  id="batchTask"
+                  className={styles.input}
+                  value={task}
+                  onChange={(e) => setTask(e.target.value)}
+                  placeholder="Optional, given to every agent"
+                  rows={3}
+                />
+              </div>
+            </>
+          )}
+
+          <div className={styles.field}>
+            <label className={styles.checkboxLabel}>
+              <input
+                type="checkbox"
+                checked={sendTasks}
+                onChange={(e) => setSendTasks(e.target.checked)}
+              />
+              <span>Type each task into its agent's first tab</span>
+            </label>
+            <p className={styles.hint}>
+              Starts the tab and sends the task once the process is ready and the
+              repository's setup commands have finished.
+            </p>
+          </div>
+
+          {error && <div className={styles.error}>{error}</div>}
+
+          <div className={styles.actions}>
+            <button
+              type="button"
+              className={styles.cancelButton}
+              onClick={handleClose}
+              disabled={loading}
+            >
+              Cancel
+            </button>
+            <button type="submit" className={styles.createButton} disabled={loading || !canSubmit}>
+              {loading ? 'Creating...' : 'Create Agents'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  )
+}
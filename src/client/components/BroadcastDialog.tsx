@@ -0,0 +1,192 @@
+import { useState } from 'react'
+import type { Agent, BroadcastTarget, BroadcastResult } from '../../shared/types'
+import styles from './CreateAgentDialog.module.css'
+
+interface BroadcastDialogProps {
+  isOpen: boolean
+  agents: Agent[]
+  results: BroadcastResult[] | null // Outcome of the last send
+  onSend: (data: string, targets: BroadcastTarget[]) => void
+  onClose: () => void
+}
+
+function getKey(agentId: string, tabId: string): string {
+  return `${agentId}:${tabId}`
+}
+
+export default function BroadcastDialog({ isOpen, agents, results, onSend, onClose }: BroadcastDialogProps) {
+  const [selected, setSelected] = useState<Set<string>>(new Set())
+  const [command, setCommand] = useState('')
+  const [pressEnter, setPressEnter] = useState(true)
+
+  if (!isOpen) return null
+
+  const activeAgents = agents.filter((a) => !a.archivedAt)
+  const getTabs = (agent: Agent) => (agent.tabs || []).filter((t) => t.kind !== 'setup')
+
+  const setTabs = (keys: string[], checked: boolean) => {
+    setSelected((prev) => {
+      const next = new Set(prev)
+      for (const key of keys) {
+        if (checked) {
+          next.add(key)
+        } else {
+          next.delete(key)
+        }
+      }
+      return next
+    })
+  }
+
+  const selectAll = () => {
+    // First tab of every agent, the common case for commands like `git pull --rebase`
+    setSelected(new Set(activeAgents.flatMap((a) => {
+      const first = getTabs(a)[0]
+      return first ? [getKey(a.id, first.id)] : []
+    })))
+  }
+
+  const targets: BroadcastTarget[] = activeAgents.flatMap((agent) =>
+    getTabs(agent)
+      .filter((tab) => selected.has(getKey(agent.id, tab.id)))
+      .map((tab) => ({ agentId: agent.id, tabId: tab.id }))
+  )
+
+  const getTargetName = (result: BroadcastResult) => {
+    const agent = agents.find((a) => a.id === result.agentId)
+    const tab = agent?.tabs?.find((t) => t.id === result.tabId)
+    return `${agent?.name || result.agentId}${tab ? ` / ${tab.name}` : ''}`
+  }
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    onSend(pressEnter ? `${command}\r` : command, targets)
+  }
+
+  const handleClose = () => {
+    setCommand('')
+    onClose()
+  }
+
+  return (
+    <div className={styles.overlay} onClick={handleClose}>
+      <div className={styles.dialog} onClick={(e) => e.stopPropagation()}>
+        <div className={styles.header}>
+          <h2 className={styles.title}>Broadcast Input</h2>
+          <button className={styles.closeButton} onClick={handleClose}>
+            ×
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit}>
+          <div className={styles.field}>
+            <div className={styles.candidateHeader}>
+              <label className={styles.label}>Targets</label>
+              <span>
+                <button type="button" className={styles.linkButton} onClick={selectAll}>
+                  First tab of each agent
+                </button>
+                {' · '}
+                <button type="button" className={styles.linkButton} onClick={() => setSelected(new Set())}>
+                  None
+                </button>
+              </span>
+            </div>
+            {activeAgents.length === 0 ? (
+              <p className={styles.hint}>No agents.</p>
+            ) : (
+              <div className={styles.candidateList}>
+                {activeAgents.map((agent) => {
+                  const keys = getTabs(agent).map((t) => getKey(agent.id, t.id))
+                  return (
+                    <div key={agent.id} className={styles.firingItem}>
+                      <label className={styles.checkboxLabel}>
+                        <input
+                          type="checkbox"
+                          checked={keys.length > 0 && keys.every((k) => selected.has(k))}
+                          onChange={(e) => setTabs(keys, e.target.checked)}
+                          disabled={keys.length === 0}
+                        />
+                        <span>{agent.name}</span>
+                      </label>
+                      {getTabs(agent).map((tab) => (
+                        <label key={tab.id} className={`${styles.checkboxLabel} ${styles.broadcastTab}`}>
+                          <input
+                            type="checkbox"
+                            checked={selected.has(getKey(agent.id, tab.id))}
+                            onChange={(e) => setTabs([getKey(agent.id, tab.id)], e.target.checked)}
+                          />
+                          <span>
+                            {tab.name} <span className={styles.firingMeta}>{tab.status}</span>
+                          </span>
+                        </label>
+                      ))}
+                    </div>
+                  )
+                })}
+              </div>
+            )}
+          </div>
+
+          <div className={styles.field}>
+            <label className={styles.label} htmlFor="broadcastCommand">
+              Input
+            </label>
+            <input
+              id="broadcastCommand"
+              type="text"
+              className={styles.input}
+              value={command}
+              onChange={(e) => setCommand(e.target.value)}
+              placeholder="git pull --rebase"
+              autoFocus
+            />
+          </div>
+
+          <div className={styles.field}>
+            <label className={styles.checkboxLabel}>
+              <input
+                type="checkbox"
+                checked={pressEnter}
+                onChange={(e) => setPressEnter(e.target.checked)}
+              />
+              <span>Press Enter after the input</span>
+            </label>
+            <p className={styles.hint}>
+              Tabs controlled by another client and tabs that aren't running are skipped.
+            </p>
+          </div>
+
+          {results && (
+            <div className={styles.field}>
+              <label className={styles.label}>Last Send</label>
+              <div className={styles.candidateList}>
+                {results.map((result) => (
+                  <div key={`${result.agentId}:${result.tabId}`} className={styles.firingItem}>
+                    <span className={styles.candidateName}>
+                      {result.delivered ? '✓' : '✕'} {getTargetName(result)}
+                    </span>
+                    {result.reason && <span className={styles.firingMeta}>{result.reason}</span>}
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <div className={styles.actions}>
+            <button type="button" className={styles.cancelButton} onClick={handleClose}>
+              Close
+            </button>
+            <button
+              type="submit"
+              className={styles.createButton}
+              disabled={targets.length === 0 || (!command && !pressEnter)}
+            >
+              Send to {targets.length} {targets.length === 1 ? 'tab' : 'tabs'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  )
+}
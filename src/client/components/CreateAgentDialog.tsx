@@ -1,10 +1,11 @@
 import { useState, useEffect } from 'react'
+import type { CreateAgentRequest, LaunchProfile, BranchListResponse } from '../../shared/types'
 import styles from './CreateAgentDialog.module.css'
 
 interface CreateAgentDialogProps {
   isOpen: boolean
   onClose: () => void
-  onCreate: (name: string, sourceRepo: string) => Promise<void>
+  onCreate: (request: CreateAgentRequest) => Promise<void>
 }
 
 export default function CreateAgentDialog({
@@ -14,16 +15,41 @@ export default function CreateAgentDialog({
 }: CreateAgentDialogProps) {
   const [name, setName] = useState('')
   const [sourceRepo, setSourceRepo] = useState('')
+  const [profile, setProfile] = useState('')
+  const [baseRef, setBaseRef] = useState('')
+  const [branch, setBranch] = useState('')
   const [recentRepos, setRecentRepos] = useState<string[]>([])
+  const [profiles, setProfiles] = useState<LaunchProfile[]>([])
+  const [branches, setBranches] = useState<BranchListResponse | null>(null)
   const [loading, setLoading] = useState(false)
   const [error, setError] = useState<string | null>(null)
 
   useEffect(() => {
     if (isOpen) {
       fetchRecentRepos()
+      fetchProfiles()
     }
   }, [isOpen])
 
+  // Load branches of the selected repo, debounced while typing the path
+  useEffect(() => {
+    const repo = sourceRepo.trim()
+    setBranches(null)
+    if (!isOpen || !repo) return
+
+    const timer = setTimeout(async () => {
+      try {
+        const response = await fetch(`/api/branches?repo=${encodeURIComponent(repo)}`)
+        if (response.ok) {
+          setBranches(await response.json())
+        }
+      } catch {
+        // Silently fail - the base ref can still be typed by hand
+      }
+    }, 300)
+    return () => clearTimeout(timer)
+  }, [isOpen, sourceRepo])
+
   const fetchRecentRepos = async () => {
     try {
       const response = await fetch('/api/recent-repos')
@@ -36,6 +62,18 @@ export default function CreateAgentDialog({
     }
   }
 
+  const fetchProfiles = async () => {
+    try {
+      const response = await fetch('/api/launch-profiles')
+      if (response.ok) {
+        const data = await response.json()
+        setProfiles(data.profiles || [])
+      }
+    } catch {
+      // Silently fail - the default shell is used without profiles
+    }
+  }
+
   if (!isOpen) return null
 
   const handleSubmit = async (e: React.FormEvent) => {
@@ -44,9 +82,18 @@ export default function CreateAgentDialog({
     setLoading(true)
 
     try {
-      await onCreate(name.trim(), sourceRepo.trim())
+      await onCreate({
+        name: name.trim(),
+        sourceRepo: sourceRepo.trim(),
+        profile: profile || undefined,
+        baseRef: baseRef.trim() || undefined,
+        branch: branch.trim() || undefined,
+      })
       setName('')
       setSourceRepo('')
+      setProfile('')
+      setBaseRef('')
+      setBranch('')
       onClose()
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to create agent')
@@ -59,6 +106,9 @@ export default function CreateAgentDialog({
     if (!loading) {
       setName('')
       setSourceRepo('')
+      setProfile('')
+      setBaseRef('')
+      setBranch('')
       setError(null)
       onClose()
     }
@@ -119,6 +169,68 @@ export default function CreateAgentDialog({
             </p>
           </div>
 
+          <div className={styles.field}>
+            <label className={styles.label} htmlFor="baseRef">
+              Base Branch
+            </label>
+            <input
+              id="baseRef"
+              type="text"
+              className={styles.input}
+              value={baseRef}
+              onChange={(e) => setBaseRef(e.target.value)}
+              placeholder={branches?.current || 'HEAD'}
+              list="repoBranches"
+            />
+            <datalist id="repoBranches">
+              {branches?.branches.map((branch) => (
+                <option key={branch} value={branch} />
+              ))}
+            </datalist>
+            <p className={styles.hint}>
+              Branch, tag or commit the agent's branch starts from. Defaults to
+              the repository's current HEAD.
+            </p>
+          </div>
+
+          <div className={styles.field}>
+            <label className={styles.label} htmlFor="branch">
+              Branch Name
+            </label>
+            <input
+              id="branch"
+              type="text"
+              className={styles.input}
+              value={branch}
+              onChange={(e) => setBranch(e.target.value)}
+              placeholder="Generated from the branch name template"
+            />
+          </div>
+
+          {profiles.length > 0 && (
+            <div className={styles.field}>
+              <label className={styles.label} htmlFor="profile">
+                Launch Profile
+              </label>
+              <select
+                id="profile"
+                className={styles.select}
+                value={profile}
+                onChange={(e) => setProfile(e.target.value)}
+              >
+                <option value="">Shell</option>
+                {profiles.map((p) => (
+                  <option key={p.name} value={p.name}>
+                    {p.name}
+                  </option>
+                ))}
+              </select>
+              <p className={styles.hint}>
+                Command started in the agent's first terminal tab.
+              </p>
+            </div>
+          )}
+
           {error && <div className={styles.error}>{error}</div>}
 
           <div className={styles.actions}>
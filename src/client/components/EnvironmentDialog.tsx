@@ -0,0 +1,198 @@
+import { useState, useEffect } from 'react'
+import type { EnvSettings, EnvVar } from '../../shared/types'
+import styles from './CreateAgentDialog.module.css'
+
+export type EnvironmentTarget =
+  | { kind: 'agent'; agentId: string; name: string }
+  | { kind: 'repo'; repo: string }
+
+interface EnvironmentDialogProps {
+  target: EnvironmentTarget | null
+  onClose: () => void
+}
+
+function getEndpoint(target: EnvironmentTarget): string {
+  return target.kind === 'agent'
+    ? `/api/agents/${target.agentId}/env`
+    : `/api/repo-settings?${new URLSearchParams({ repo: target.repo })}`
+}
+
+export default function EnvironmentDialog({ target, onClose }: EnvironmentDialogProps) {
+  const [vars, setVars] = useState<EnvVar[]>([])
+  const [envFile, setEnvFile] = useState('')
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (target) {
+      fetchEnv(target)
+    }
+  }, [target])
+
+  const fetchEnv = async (current: EnvironmentTarget) => {
+    setError(null)
+    try {
+      const response = await fetch(getEndpoint(current))
+      if (!response.ok) {
+        const data = await response.json()
+        throw new Error(data.error || 'Failed to load environment')
+      }
+      const data = await response.json()
+      // Repo settings wrap the environment, the agent endpoint returns it directly
+      const env: EnvSettings = current.kind === 'repo' ? data.env || {} : data
+      setVars(env.vars || [])
+      setEnvFile(env.envFile || '')
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load environment')
+    }
+  }
+
+  if (!target) return null
+
+  const updateVar = (index: number, changes: Partial<EnvVar>) => {
+    setVars((prev) => prev.map((v, i) => (i === index ? { ...v, ...changes } : v)))
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setError(null)
+    setLoading(true)
+
+    try {
+      const env: EnvSettings = {
+        vars: vars.filter((v) => v.name.trim()),
+        envFile: envFile.trim() || undefined,
+      }
+      const response = await fetch(getEndpoint(target), {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(target.kind === 'repo' ? { env } : env),
+      })
+      if (!response.ok) {
+        const data = await response.json()
+        throw new Error(data.error || 'Failed to save environment')
+      }
+      onClose()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save environment')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleClose = () => {
+    if (!loading) {
+      setError(null)
+      onClose()
+    }
+  }
+
+  return (
+    <div className={styles.overlay} onClick={handleClose}>
+      <div className={styles.dialog} onClick={(e) => e.stopPropagation()}>
+        <div className={styles.header}>
+          <h2 className={styles.title}>
+            {target.kind === 'agent' ? `Environment: ${target.name}` : 'Repository Environment'}
+          </h2>
+          <button className={styles.closeButton} onClick={handleClose}>
+            ×
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit}>
+          {target.kind === 'repo' && (
+            <div className={styles.field}>
+              <p className={styles.hint}>
+                Applies to every agent of <code>{target.repo}</code>.
+              </p>
+            </div>
+          )}
+
+          <div className={styles.field}>
+            <div className={styles.candidateHeader}>
+              <label className={styles.label}>Variables</label>
+              <button
+                type="button"
+                className={styles.linkButton}
+                onClick={() => setVars((prev) => [...prev, { name: '', value: '' }])}
+              >
+                + Add variable
+              </button>
+            </div>
+            <div className={styles.envList}>
+              {vars.map((v, index) => (
+                <div key={index} className={styles.envRow}>
+                  <input
+                    type="text"
+                    className={styles.input}
+                    value={v.name}
+                    onChange={(e) => updateVar(index, { name: e.target.value })}
+                    placeholder="NAME"
+                  />
+                  <input
+                    type={v.secret ? 'password' : 'text'}
+                    className={styles.input}
+                    value={v.value}
+                    onChange={(e) => updateVar(index, { value: e.target.value })}
+                    placeholder="value"
+                  />
+                  <label className={styles.envSecret} title="Mask the value in API responses">
+                    <input
+                      type="checkbox"
+                      checked={!!v.secret}
+                      onChange={(e) => updateVar(index, { secret: e.target.checked })}
+                    />
+                    Secret
+                  </label>
+                  <button
+                    type="button"
+                    className={styles.envRemove}
+                    onClick={() => setVars((prev) => prev.filter((_, i) => i !== index))}
+                    title="Remove variable"
+                  >
+                    ×
+                  </button>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <div className={styles.field}>
+            <label className={styles.label} htmlFor="envFile">
+              .env File
+            </label>
+            <input
+              id="envFile"
+              type="text"
+              className={styles.input}
+              value={envFile}
+              onChange={(e) => setEnvFile(e.target.value)}
+              placeholder=".env"
+            />
+            <p className={styles.hint}>
+              Loaded before the variables above. Relative paths resolve against the
+              {target.kind === 'agent' ? ' worktree' : ' source repository'}.
+              Changes apply to tabs started afterwards.
+            </p>
+          </div>
+
+          {error && <div className={styles.error}>{error}</div>}
+
+          <div className={styles.actions}>
+            <button
+              type="button"
+              className={styles.cancelButton}
+              onClick={handleClose}
+              disabled={loading}
+            >
+              Cancel
+            </button>
+            <button type="submit" className={styles.createButton} disabled={loading}>
+              {loading ? 'Saving...' : 'Save'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  )
+}
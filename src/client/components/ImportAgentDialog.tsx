@@ -0,0 +1,303 @@
+import { useState, useEffect } from 'react'
+import type { ImportAgentRequest, ImportCandidates, LaunchProfile } from '../../shared/types'
+import styles from './CreateAgentDialog.module.css'
+
+interface ImportAgentDialogProps {
+  isOpen: boolean
+  onClose: () => void
+  onImport: (request: ImportAgentRequest) => Promise<void>
+}
+
+type Selection = { kind: 'branch' | 'worktree'; value: string; branch: string }
+
+export default function ImportAgentDialog({
+  isOpen,
+  onClose,
+  onImport,
+}: ImportAgentDialogProps) {
+  const [name, setName] = useState('')
+  const [sourceRepo, setSourceRepo] = useState('')
+  const [profile, setProfile] = useState('')
+  const [selection, setSelection] = useState<Selection | null>(null)
+  const [candidates, setCandidates] = useState<ImportCandidates | null>(null)
+  const [recentRepos, setRecentRepos] = useState<string[]>([])
+  const [profiles, setProfiles] = useState<LaunchProfile[]>([])
+  const [fetching, setFetching] = useState(false)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (isOpen) {
+      fetchRecentRepos()
+      fetchProfiles()
+    }
+  }, [isOpen])
+
+  // Load candidates of the selected repo, debounced while typing the path
+  useEffect(() => {
+    const repo = sourceRepo.trim()
+    setCandidates(null)
+    setSelection(null)
+    if (!isOpen || !repo) return
+
+    const timer = setTimeout(() => loadCandidates(repo, false), 300)
+    return () => clearTimeout(timer)
+  }, [isOpen, sourceRepo])
+
+  const fetchRecentRepos = async () => {
+    try {
+      const response = await fetch('/api/recent-repos')
+      if (response.ok) {
+        const data = await response.json()
+        setRecentRepos(data.repos || [])
+      }
+    } catch {
+      // Silently fail - recent repos is optional
+    }
+  }
+
+  const fetchProfiles = async () => {
+    try {
+      const response = await fetch('/api/launch-profiles')
+      if (response.ok) {
+        const data = await response.json()
+        setProfiles(data.profiles || [])
+      }
+    } catch {
+      // Silently fail - the default shell is used without profiles
+    }
+  }
+
+  const loadCandidates = async (repo: string, fetchRemotes: boolean) => {
+    setFetching(true)
+    try {
+      const params = new URLSearchParams({ repo })
+      if (fetchRemotes) params.set('fetch', 'true')
+      const response = await fetch(`/api/import-candidates?${params}`)
+      if (response.ok) {
+        setCandidates(await response.json())
+        setError(null)
+      } else if (fetchRemotes) {
+        const data = await response.json()
+        setError(data.error || 'Failed to fetch remotes')
+      }
+    } catch {
+      // Silently fail - the repo path may still be incomplete
+    } finally {
+      setFetching(false)
+    }
+  }
+
+  if (!isOpen) return null
+
+  const reset = () => {
+    setName('')
+    setSourceRepo('')
+    setProfile('')
+    setSelection(null)
+    setCandidates(null)
+  }
+
+  const handleSelect = (next: Selection) => {
+    setSelection(next)
+    // Default the agent name to the branch being adopted
+    if (!name.trim()) {
+      setName(next.branch)
+    }
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!selection) return
+    setError(null)
+    setLoading(true)
+
+    try {
+      await onImport({
+        name: name.trim(),
+        sourceRepo: sourceRepo.trim(),
+        branch: selection.kind === 'branch' ? selection.value : undefined,
+        worktreePath: selection.kind === 'worktree' ? selection.value : undefined,
+        profile: profile || undefined,
+      })
+      reset()
+      onClose()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to import agent')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleClose = () => {
+    if (!loading) {
+      reset()
+      setError(null)
+      onClose()
+    }
+  }
+
+  const worktrees = candidates?.worktrees.filter((w) => !w.main) || []
+  const branches = candidates?.branches || []
+
+  const isSelected = (kind: Selection['kind'], value: string) =>
+    selection?.kind === kind && selection.value === value
+
+  return (
+    <div className={styles.overlay} onClick={handleClose}>
+      <div className={styles.dialog} onClick={(e) => e.stopPropagation()}>
+        <div className={styles.header}>
+          <h2 className={styles.title}>Import Existing Work</h2>
+          <button className={styles.closeButton} onClick={handleClose}>
+            ×
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit}>
+          <div className={styles.field}>
+            <label className={styles.label} htmlFor="importRepo">
+              Source Repository Path
+            </label>
+            <input
+              id="importRepo"
+              type="text"
+              className={styles.input}
+              value={sourceRepo}
+              onChange={(e) => setSourceRepo(e.target.value)}
+              placeholder="/path/to/your/git/repo"
+              list="importRecentRepos"
+              required
+              autoFocus
+            />
+            <datalist id="importRecentRepos">
+              {recentRepos.map((repo) => (
+                <option key={repo} value={repo} />
+              ))}
+            </datalist>
+          </div>
+
+          {candidates && (
+            <div className={styles.field}>
+              <div className={styles.candidateHeader}>
+                <label className={styles.label}>Branch or Worktree</label>
+                <button
+                  type="button"
+                  className={styles.linkButton}
+                  onClick={() => loadCandidates(sourceRepo.trim(), true)}
+                  disabled={fetching}
+                >
+                  {fetching ? 'Fetching...' : 'Fetch remotes'}
+                </button>
+              </div>
+              <div className={styles.candidateList}>
+                {worktrees.map((w) => (
+                  <label
+                    key={w.path}
+                    className={`${styles.candidate} ${w.agentId || !w.branch ? styles.disabled : ''}`}
+                  >
+                    <input
+                      type="radio"
+                      name="candidate"
+                      checked={isSelected('worktree', w.path)}
+                      disabled={!!w.agentId || !w.branch}
+                      onChange={() => handleSelect({ kind: 'worktree', value: w.path, branch: w.branch! })}
+                    />
+                    <span className={styles.candidateName}>{w.branch || w.head.slice(0, 8)}</span>
+                    <span className={styles.candidateMeta}>
+                      {w.agentId ? 'already an agent' : !w.branch ? 'detached HEAD' : `worktree ${w.path}`}
+                    </span>
+                  </label>
+                ))}
+                {branches.map((b) => (
+                  <label
+                    key={b.name}
+                    className={`${styles.candidate} ${b.agentId || b.worktreePath ? styles.disabled : ''}`}
+                  >
+                    <input
+                      type="radio"
+                      name="candidate"
+                      checked={isSelected('branch', b.name)}
+                      disabled={!!b.agentId || !!b.worktreePath}
+                      onChange={() => handleSelect({
+                        kind: 'branch',
+                        value: b.name,
+                        branch: b.remote ? b.name.slice(b.name.indexOf('/') + 1) : b.name,
+                      })}
+                    />
+                    <span className={styles.candidateName}>{b.name}</span>
+                    <span className={styles.candidateMeta}>
+                      {b.agentId
+                        ? 'already an agent'
+                        : b.worktreePath
+                          ? 'checked out'
+                          : b.remote ? 'remote branch' : 'branch'}
+                    </span>
+                  </label>
+                ))}
+              </div>
+              <p className={styles.hint}>
+                Branches get a new worktree; existing worktrees are used in place.
+              </p>
+            </div>
+          )}
+
+          <div className={styles.field}>
+            <label className={styles.label} htmlFor="importName">
+              Agent Name
+            </label>
+            <input
+              id="importName"
+              type="text"
+              className={styles.input}
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="my-feature-agent"
+              required
+            />
+          </div>
+
+          {profiles.length > 0 && (
+            <div className={styles.field}>
+              <label className={styles.label} htmlFor="importProfile">
+                Launch Profile
+              </label>
+              <select
+                id="importProfile"
+                className={styles.select}
+                value={profile}
+                onChange={(e) => setProfile(e.target.value)}
+              >
+                <option value="">Shell</option>
+                {profiles.map((p) => (
+                  <option key={p.name} value={p.name}>
+                    {p.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
+
+          {error && <div className={styles.error}>{error}</div>}
+
+          <div className={styles.actions}>
+            <button
+              type="button"
+              className={styles.cancelButton}
+              onClick={handleClose}
+              disabled={loading}
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              className={styles.createButton}
+              disabled={loading || !selection || !name.trim() || !sourceRepo.trim()}
+            >
+              {loading ? 'Importing...' : 'Import Agent'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,232 @@
+import { useState, useEffect } from 'react'
+import type { Job, JobInfo } from '../../shared/types'
+import styles from './CreateAgentDialog.module.css'
+
+export interface JobsTarget {
+  agentId: string
+  name: string
+}
+
+// Output streamed for the selected job
+export interface JobOutput {
+  jobId: string
+  stdout: string
+  stderr: string
+}
+
+interface JobsDialogProps {
+  target: JobsTarget | null
+  liveJobs: JobInfo[] // job-updated pushes for the target agent
+  output: JobOutput | null
+  onWatch: (jobId: string | null) => void
+  onClose: () => void
+}
+
+const STATUS_ICONS: Record<JobInfo['status'], string> = {
+  running: '…',
+  succeeded: '✓',
+  failed: '✕',
+  cancelled: '⊘',
+  'timed-out': '⏱',
+}
+
+function formatJobMeta(job: JobInfo): string {
+  const started = new Date(job.startedAt).toLocaleTimeString()
+  if (job.status === 'running') return `Started ${started}`
+  const result = job.signal ? job.signal : `exit ${job.exitCode}`
+  return `${job.status} · ${result} · ${((job.durationMs || 0) / 1000).toFixed(1)}s · ${started}`
+}
+
+export default function JobsDialog({ target, liveJobs, output, onWatch, onClose }: JobsDialogProps) {
+  const [jobs, setJobs] = useState<JobInfo[]>([])
+  const [command, setCommand] = useState('')
+  const [selectedId, setSelectedId] = useState<string | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (target) {
+      setJobs([])
+      setSelectedId(null)
+      fetchJobs(target.agentId)
+    }
+  }, [target])
+
+  // Jobs start and finish while the dialog is open
+  useEffect(() => {
+    setJobs((prev) => {
+      const next = [...prev]
+      for (const job of liveJobs) {
+        const index = next.findIndex((j) => j.id === job.id)
+        if (index === -1) {
+          next.push(job)
+        } else {
+          next[index] = job
+        }
+      }
+      return next
+    })
+  }, [liveJobs])
+
+  const fetchJobs = async (agentId: string) => {
+    setError(null)
+    try {
+      const response = await fetch(`/api/agents/${agentId}/jobs`)
+      if (!response.ok) {
+        const data = await response.json()
+        throw new Error(data.error || 'Failed to load jobs')
+      }
+      const data = await response.json()
+      setJobs(data.jobs || [])
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load jobs')
+    }
+  }
+
+  if (!target) return null
+
+  const select = (jobId: string | null) => {
+    setSelectedId(jobId)
+    onWatch(jobId)
+  }
+
+  const handleRun = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setError(null)
+    setLoading(true)
+
+    try {
+      const response = await fetch(`/api/agents/${target.agentId}/jobs`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ command }),
+      })
+      if (!response.ok) {
+        const data = await response.json()
+        throw new Error(data.error || 'Failed to start job')
+      }
+      const job: Job = await response.json()
+      setCommand('')
+      select(job.id)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to start job')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleCancel = async (job: JobInfo) => {
+    setError(null)
+    try {
+      const response = await fetch(`/api/agents/${target.agentId}/jobs/${job.id}/cancel`, { method: 'POST' })
+      if (!response.ok) {
+        const data = await response.json()
+        throw new Error(data.error || 'Failed to cancel job')
+      }
+      // The WebSocket pushes the cancelled job once its processes exited
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to cancel job')
+    }
+  }
+
+  const handleClose = () => {
+    setCommand('')
+    setError(null)
+    select(null)
+    onClose()
+  }
+
+  const selected = jobs.find((j) => j.id === selectedId)
+  const selectedOutput = output?.jobId === selectedId ? output : null
+
+  return (
+    <div className={styles.overlay} onClick={handleClose}>
+      <div className={styles.dialog} onClick={(e) => e.stopPropagation()}>
+        <div className={styles.header}>
+          <h2 className={styles.title}>Jobs: {target.name}</h2>
+          <button className={styles.closeButton} onClick={handleClose}>
+            ×
+          </button>
+        </div>
+
+        <form onSubmit={handleRun}>
+          <div className={styles.field}>
+            <label className={styles.label} htmlFor="jobCommand">
+              Command
+            </label>
+            <input
+              id="jobCommand"
+              type="text"
+              className={styles.input}
+              value={command}
+              onChange={(e) => setCommand(e.target.value)}
+              placeholder="npm test"
+              autoFocus
+            />
+            <p className={styles.hint}>
+              Runs in the agent's worktree without a terminal, with the agent's environment.
+            </p>
+          </div>
+
+          <div className={styles.field}>
+            <label className={styles.label}>Jobs</label>
+            {jobs.length === 0 ? (
+              <p className={styles.hint}>No jobs yet.</p>
+            ) : (
+              <div className={styles.envList}>
+                {[...jobs].reverse().map((job) => (
+                  <div key={job.id} className={styles.taskRow}>
+                    <button
+                      type="button"
+                      className={`${styles.candidate} ${job.id === selectedId ? styles.selected : ''}`}
+                      onClick={() => select(job.id === selectedId ? null : job.id)}
+                      title="Show output"
+                    >
+                      <span className={styles.candidateName}>
+                        {STATUS_ICONS[job.status]} {job.command}
+                      </span>
+                      <span className={styles.candidateMeta}>{formatJobMeta(job)}</span>
+                    </button>
+                    {job.status === 'running' && (
+                      <button
+                        type="button"
+                        className={styles.envRemove}
+                        onClick={() => handleCancel(job)}
+                        title="Cancel job"
+                      >
+                        ×
+                      </button>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {selected && (
+            <div className={styles.field}>
+              <label className={styles.label}>
+                Output{selected.truncated ? ' (earlier output dropped)' : ''}
+              </label>
+              <pre className={styles.jobOutput}>{selectedOutput?.stdout || ' '}</pre>
+              {selectedOutput?.stderr && (
+                <pre className={`${styles.jobOutput} ${styles.jobStderr}`}>{selectedOutput.stderr}</pre>
+              )}
+            </div>
+          )}
+
+          {error && <div className={styles.error}>{error}</div>}
+
+          <div className={styles.actions}>
+            <button type="button" className={styles.cancelButton} onClick={handleClose}>
+              Close
+            </button>
+            <button type="submit" className={styles.createButton} disabled={loading || !command.trim()}>
+              {loading ? 'Starting...' : 'Run'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,169 @@
+import { useState, useEffect } from 'react'
+import styles from './CreateAgentDialog.module.css'
+
+interface RepoSettings {
+  branchTemplate?: string
+  setupCommands?: string[]
+  teardownCommands?: string[]
+}
+
+interface RepoSettingsDialogProps {
+  repo: string | null
+  onClose: () => void
+}
+
+export default function RepoSettingsDialog({ repo, onClose }: RepoSettingsDialogProps) {
+  const [branchTemplate, setBranchTemplate] = useState('')
+  const [setupCommands, setSetupCommands] = useState('')
+  const [teardownCommands, setTeardownCommands] = useState('')
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (repo) {
+      fetchSettings(repo)
+    }
+  }, [repo])
+
+  const fetchSettings = async (repoPath: string) => {
+    setError(null)
+    try {
+      const response = await fetch(`/api/repo-settings?${new URLSearchParams({ repo: repoPath })}`)
+      if (!response.ok) {
+        const data = await response.json()
+        throw new Error(data.error || 'Failed to load repository settings')
+      }
+      const data: RepoSettings = await response.json()
+      setBranchTemplate(data.branchTemplate || '')
+      setSetupCommands((data.setupCommands || []).join('\n'))
+      setTeardownCommands((data.teardownCommands || []).join('\n'))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load repository settings')
+    }
+  }
+
+  if (!repo) return null
+
+  const toCommands = (value: string) => value.split('\n').map((c) => c.trim()).filter(Boolean)
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setError(null)
+    setLoading(true)
+
+    try {
+      const response = await fetch(`/api/repo-settings?${new URLSearchParams({ repo })}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          branchTemplate: branchTemplate.trim(),
+          setupCommands: toCommands(setupCommands),
+          teardownCommands: toCommands(teardownCommands),
+        }),
+      })
+      if (!response.ok) {
+        const data = await response.json()
+        throw new Error(data.error || 'Failed to save repository settings')
+      }
+      onClose()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save repository settings')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleClose = () => {
+    if (!loading) {
+      setError(null)
+      onClose()
+    }
+  }
+
+  return (
+    <div className={styles.overlay} onClick={handleClose}>
+      <div className={styles.dialog} onClick={(e) => e.stopPropagation()}>
+        <div className={styles.header}>
+          <h2 className={styles.title}>Repository Settings</h2>
+          <button className={styles.closeButton} onClick={handleClose}>
+            ×
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit}>
+          <div className={styles.field}>
+            <p className={styles.hint}>
+              Settings for <code>{repo}</code>.
+            </p>
+          </div>
+
+          <div className={styles.field}>
+            <label className={styles.label} htmlFor="repoBranchTemplate">
+              Branch Name Template
+            </label>
+            <input
+              id="repoBranchTemplate"
+              type="text"
+              className={styles.input}
+              value={branchTemplate}
+              onChange={(e) => setBranchTemplate(e.target.value)}
+              placeholder="Use the global template"
+            />
+          </div>
+
+          <div className={styles.field}>
+            <label className={styles.label} htmlFor="repoSetupCommands">
+              Setup Commands
+            </label>
+            <textarea
+              id="repoSetupCommands"
+              className={styles.input}
+              value={setupCommands}
+              onChange={(e) => setSetupCommands(e.target.value)}
+              placeholder={'npm ci\ncp ../.env .'}
+              rows={4}
+            />
+            <p className={styles.hint}>
+              One command per line, run in order in every new worktree. Output is shown
+              in the agent's Setup tab; the first failing command stops the setup.
+            </p>
+          </div>
+
+          <div className={styles.field}>
+            <label className={styles.label} htmlFor="repoTeardownCommands">
+              Teardown Commands
+            </label>
+            <textarea
+              id="repoTeardownCommands"
+              className={styles.input}
+              value={teardownCommands}
+              onChange={(e) => setTeardownCommands(e.target.value)}
+              placeholder="docker compose down"
+              rows={3}
+            />
+            <p className={styles.hint}>
+              Run in the worktree before it is removed by delete or archive. A failing
+              command stops the deletion unless it is forced.
+            </p>
+          </div>
+
+          {error && <div className={styles.error}>{error}</div>}
+
+          <div className={styles.actions}>
+            <button
+              type="button"
+              className={styles.cancelButton}
+              onClick={handleClose}
+              disabled={loading}
+            >
+              Cancel
+            </button>
+            <button type="submit" className={styles.createButton} disabled={loading}>
+              {loading ? 'Saving...' : 'Save'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  )
+}
@@ -1,9 +1,11 @@
 import { useState, useEffect } from 'react'
+import type { Agent, RuleAction, RuleFiring, TriggerRule } from '../../shared/types'
 import styles from './CreateAgentDialog.module.css'
 
 interface Settings {
   logDir: string
   logEnabled: boolean
+  branchTemplate?: string
 }
 
 interface TerminalSettings {
@@ -13,6 +15,7 @@ interface TerminalSettings {
 
 interface SettingsDialogProps {
   isOpen: boolean
+  agents: Agent[] // Choices for scoping rules
   onClose: () => void
   onTerminalSettingsChange?: (settings: TerminalSettings) => void
 }
@@ -28,15 +31,43 @@ const FONT_OPTIONS = [
   'Consolas, monospace',
 ]
 
+const NEW_RULE: TriggerRule = { id: '', name: '', pattern: '', enabled: true, actions: [{ type: 'notify' }] }
+
+// Actions without a value, toggled by checkboxes
+const FLAG_ACTIONS: { type: RuleAction['type']; label: string }[] = [
+  { type: 'notify', label: 'Notify' },
+  { type: 'mark', label: 'Mark agent' },
+  { type: 'stop-tab', label: 'Stop tab' },
+]
+
+function getScope(rule: TriggerRule): string {
+  if (rule.agentId) return `agent:${rule.agentId}`
+  if (rule.repo) return `repo:${rule.repo}`
+  return ''
+}
+
+// Show control characters of send-input as escapes so they can be edited
+function escapeInput(input: string): string {
+  return input.replace(/\r/g, '\\r').replace(/\n/g, '\\n')
+}
+
+function unescapeInput(value: string): string {
+  return value.replace(/\\r/g, '\r').replace(/\\n/g, '\n')
+}
+
 export default function SettingsDialog({
   isOpen,
+  agents,
   onClose,
   onTerminalSettingsChange,
 }: SettingsDialogProps) {
   const [logDir, setLogDir] = useState('')
   const [logEnabled, setLogEnabled] = useState(false)
+  const [branchTemplate, setBranchTemplate] = useState('')
   const [fontFamily, setFontFamily] = useState(FONT_OPTIONS[0])
   const [fontSize, setFontSize] = useState(14)
+  const [rules, setRules] = useState<TriggerRule[]>([])
+  const [firings, setFirings] = useState<RuleFiring[]>([])
   const [loading, setLoading] = useState(false)
   const [error, setError] = useState<string | null>(null)
   const [success, setSuccess] = useState(false)
@@ -49,15 +80,17 @@ export default function SettingsDialog({
 
   const fetchSettings = async () => {
     try {
-      const [settingsRes, terminalRes] = await Promise.all([
+      const [settingsRes, terminalRes, rulesRes] = await Promise.all([
         fetch('/api/settings'),
         fetch('/api/terminal-settings'),
+        fetch('/api/rules'),
       ])
 
       if (settingsRes.ok) {
         const data: Settings = await settingsRes.json()
         setLogDir(data.logDir || '')
         setLogEnabled(data.logEnabled || false)
+        setBranchTemplate(data.branchTemplate || '')
       }
 
       if (terminalRes.ok) {
@@ -65,13 +98,66 @@ export default function SettingsDialog({
         setFontFamily(data.fontFamily || FONT_OPTIONS[0])
         setFontSize(data.fontSize || 14)
       }
+
+      if (rulesRes.ok) {
+        const data: { rules: TriggerRule[] } = await rulesRes.json()
+        setRules(data.rules)
+      }
+
+      await fetchFirings()
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to load settings')
     }
   }
 
+  const fetchFirings = async () => {
+    const response = await fetch('/api/rules/firings')
+    if (response.ok) {
+      const data: { firings: RuleFiring[] } = await response.json()
+      setFirings(data.firings)
+    }
+  }
+
   if (!isOpen) return null
 
+  const repos = Array.from(new Set(agents.map((a) => a.sourceRepo)))
+
+  const updateRule = (index: number, changes: Partial<TriggerRule>) => {
+    setRules((prev) => prev.map((r, i) => (i === index ? { ...r, ...changes } : r)))
+  }
+
+  const setScope = (index: number, scope: string) => {
+    updateRule(index, {
+      agentId: scope.startsWith('agent:') ? scope.slice('agent:'.length) : undefined,
+      repo: scope.startsWith('repo:') ? scope.slice('repo:'.length) : undefined,
+    })
+  }
+
+  const toggleAction = (index: number, type: RuleAction['type'], enabled: boolean) => {
+    const rule = rules[index]
+    const others = rule.actions.filter((a) => a.type !== type)
+    updateRule(index, { actions: enabled ? [...others, { type } as RuleAction] : others })
+  }
+
+  const getActionValue = (rule: TriggerRule, type: 'send-input' | 'webhook'): string => {
+    const action = rule.actions.find((a) => a.type === type)
+    if (action?.type === 'send-input') return escapeInput(action.input)
+    if (action?.type === 'webhook') return action.url
+    return ''
+  }
+
+  const setActionValue = (index: number, type: 'send-input' | 'webhook', value: string) => {
+    const rule = rules[index]
+    const others = rule.actions.filter((a) => a.type !== type)
+    if (!value) {
+      updateRule(index, { actions: others })
+    } else if (type === 'send-input') {
+      updateRule(index, { actions: [...others, { type, input: unescapeInput(value) }] })
+    } else {
+      updateRule(index, { actions: [...others, { type, url: value }] })
+    }
+  }
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
     setError(null)
@@ -79,17 +165,31 @@ export default function SettingsDialog({
     setLoading(true)
 
     try {
-      const [settingsRes, terminalRes] = await Promise.all([
+      // Desktop notifications need the user's permission once
+      if (
+        rules.some((r) => r.actions.some((a) => a.type === 'notify')) &&
+        'Notification' in window &&
+        Notification.permission === 'default'
+      ) {
+        Notification.requestPermission()
+      }
+
+      const [settingsRes, terminalRes, rulesRes] = await Promise.all([
         fetch('/api/settings', {
           method: 'PUT',
           headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({ logDir, logEnabled }),
+          body: JSON.stringify({ logDir, logEnabled, branchTemplate: branchTemplate.trim() }),
         }),
         fetch('/api/terminal-settings', {
           method: 'PUT',
           headers: { 'Content-Type': 'application/json' },
           body: JSON.stringify({ fontFamily, fontSize }),
         }),
+        fetch('/api/rules', {
+          method: 'PUT',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ rules }),
+        }),
       ])
 
       if (!settingsRes.ok) {
@@ -102,6 +202,14 @@ export default function SettingsDialog({
         throw new Error(data.error || 'Failed to save terminal settings')
       }
 
+      if (!rulesRes.ok) {
+        const data = await rulesRes.json()
+        throw new Error(data.error || 'Failed to save rules')
+      }
+      // Rules saved for the first time get their ids from the server
+      const data: { rules: TriggerRule[] } = await rulesRes.json()
+      setRules(data.rules)
+
       // Notify parent of terminal settings change
       onTerminalSettingsChange?.({ fontFamily, fontSize })
 
@@ -168,6 +276,26 @@ export default function SettingsDialog({
             />
           </div>
 
+          <div className={styles.sectionTitle}>Agents</div>
+
+          <div className={styles.field}>
+            <label className={styles.label} htmlFor="branchTemplate">
+              Branch Name Template
+            </label>
+            <input
+              id="branchTemplate"
+              type="text"
+              className={styles.input}
+              value={branchTemplate}
+              onChange={(e) => setBranchTemplate(e.target.value)}
+              placeholder="agent/{shortId}"
+            />
+            <p className={styles.hint}>
+              Placeholders: {'{name}'} (agent name slug), {'{date}'} (YYYYMMDD),
+              {' {shortId}'}, {'{user}'}. Repositories can override this template.
+            </p>
+          </div>
+
           <div className={styles.sectionTitle}>Logging</div>
 
           <div className={styles.field}>
@@ -202,6 +330,136 @@ export default function SettingsDialog({
             </p>
           </div>
 
+          <div className={styles.sectionTitle}>Rules</div>
+
+          <div className={styles.field}>
+            <div className={styles.candidateHeader}>
+              <p className={styles.hint}>
+                Fire actions when terminal output matches a regular expression (case-insensitive).
+              </p>
+              <button
+                type="button"
+                className={styles.linkButton}
+                onClick={() => setRules((prev) => [...prev, { ...NEW_RULE }])}
+              >
+                + Add rule
+              </button>
+            </div>
+            <div className={styles.ruleList}>
+              {rules.map((rule, index) => (
+                <div key={rule.id || `new-${index}`} className={styles.ruleCard}>
+                  <div className={styles.ruleRow}>
+                    <input
+                      type="checkbox"
+                      checked={rule.enabled}
+                      onChange={(e) => updateRule(index, { enabled: e.target.checked })}
+                      title="Enabled"
+                    />
+                    <input
+                      type="text"
+                      className={styles.input}
+                      value={rule.name}
+                      onChange={(e) => updateRule(index, { name: e.target.value })}
+                      placeholder="Name"
+                    />
+                    <input
+                      type="text"
+                      className={`${styles.input} ${styles.rulePattern}`}
+                      value={rule.pattern}
+                      onChange={(e) => updateRule(index, { pattern: e.target.value })}
+                      placeholder="Do you want to proceed\?"
+                    />
+                    <button
+                      type="button"
+                      className={styles.envRemove}
+                      onClick={() => setRules((prev) => prev.filter((_, i) => i !== index))}
+                      title="Remove rule"
+                    >
+                      ×
+                    </button>
+                  </div>
+                  <div className={styles.ruleRow}>
+                    <select
+                      className={styles.select}
+                      value={getScope(rule)}
+                      onChange={(e) => setScope(index, e.target.value)}
+                    >
+                      <option value="">All agents</option>
+                      {repos.map((repo) => (
+                        <option key={repo} value={`repo:${repo}`}>
+                          Repo: {repo}
+                        </option>
+                      ))}
+                      {agents.map((agent) => (
+                        <option key={agent.id} value={`agent:${agent.id}`}>
+                          Agent: {agent.name}
+                        </option>
+                      ))}
+                    </select>
+                    {FLAG_ACTIONS.map(({ type, label }) => (
+                      <label key={type} className={styles.envSecret}>
+                        <input
+                          type="checkbox"
+                          checked={rule.actions.some((a) => a.type === type)}
+                          onChange={(e) => toggleAction(index, type, e.target.checked)}
+                        />
+                        {label}
+                      </label>
+                    ))}
+                  </div>
+                  <div className={styles.ruleRow}>
+                    <input
+                      type="text"
+                      className={styles.input}
+                      value={getActionValue(rule, 'send-input')}
+                      onChange={(e) => setActionValue(index, 'send-input', e.target.value)}
+                      placeholder="Send input, e.g. y\r"
+                    />
+                    <input
+                      type="text"
+                      className={styles.input}
+                      value={getActionValue(rule, 'webhook')}
+                      onChange={(e) => setActionValue(index, 'webhook', e.target.value)}
+                      placeholder="Webhook URL"
+                    />
+                  </div>
+                </div>
+              ))}
+            </div>
+            <p className={styles.hint}>
+              In the input, \r stands for Enter. Webhooks receive the firing as a JSON POST.
+              A rule fires at most once every 5 seconds per tab.
+            </p>
+          </div>
+
+          <div className={styles.field}>
+            <div className={styles.candidateHeader}>
+              <label className={styles.label}>Recent Firings</label>
+              <button type="button" className={styles.linkButton} onClick={fetchFirings}>
+                Refresh
+              </button>
+            </div>
+            {firings.length === 0 ? (
+              <p className={styles.hint}>No rule has fired yet.</p>
+            ) : (
+              <div className={styles.candidateList}>
+                {firings.map((firing, index) => (
+                  <div key={index} className={styles.firingItem}>
+                    <span className={styles.candidateName}>
+                      {firing.ruleName} · {firing.agentName}
+                    </span>
+                    <span className={styles.firingMeta}>
+                      {new Date(firing.firedAt).toLocaleTimeString()} · {firing.actions.join(', ')}
+                      {firing.error ? ` · ${firing.error}` : ''}
+                      {' · '}
+                      <code>{firing.match}</code>
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
           {error && <div className={styles.error}>{error}</div>}
           {success && <div className={styles.success}>Settings saved!</div>}
 
@@ -1,26 +1,76 @@
 import { useState } from 'react'
-import type { Agent } from '../../shared/types'
+import type { Agent, AgentResources, UpdateAgentRequest } from '../../shared/types'
+import type { EnvironmentTarget } from './EnvironmentDialog'
+import type { TaskQueueTarget } from './TaskQueueDialog'
+import type { JobsTarget } from './JobsDialog'
 import styles from './Sidebar.module.css'
 
 interface SidebarProps {
   agents: Agent[]
+  resources: Map<string, AgentResources> // Latest usage of agents with running tabs
   selectedAgentId: string | null
   onSelectAgent: (agentId: string) => void
   onCreateAgent: () => void
+  onImportAgent: () => void
+  onBatchCreate: () => void
+  onBroadcast: () => void
+  onUpdateAgent: (agentId: string, updates: UpdateAgentRequest) => Promise<void>
   onDeleteAgent: (agentId: string) => void
+  onArchiveAgent: (agentId: string) => void
+  onRestoreAgent: (agentId: string) => void
   onCreatePR: (agentId: string) => void
   onMerge: (agentId: string) => void
+  onEditEnvironment: (target: EnvironmentTarget) => void
+  onRunSetup: (agentId: string) => void
+  onEditTasks: (target: TaskQueueTarget) => void
+  onOpenJobs: (target: JobsTarget) => void
+  onClearMark: (agentId: string) => void
+  onOpenRepoSettings: (repo: string) => void
   onOpenSettings: () => void
 }
 
+function formatBytes(bytes: number): string {
+  if (bytes >= 1024 ** 3) return `${(bytes / 1024 ** 3).toFixed(1)} GB`
+  return `${Math.round(bytes / 1024 ** 2)} MB`
+}
+
+function formatDuration(ms: number): string {
+  const minutes = Math.floor(ms / 60000)
+  if (minutes >= 60) return `${Math.floor(minutes / 60)}h ${minutes % 60}m`
+  if (minutes > 0) return `${minutes}m`
+  return `${Math.floor(ms / 1000)}s`
+}
+
+function getResourceTitle(usage: AgentResources): string {
+  const lines = [...usage.warnings]
+  const { longestRunning } = usage.total
+  if (longestRunning) {
+    lines.push(`Longest running: ${longestRunning.command} (pid ${longestRunning.pid}, ${formatDuration(longestRunning.elapsedMs)})`)
+  }
+  return lines.join('\n')
+}
+
 export default function Sidebar({
   agents,
+  resources,
   selectedAgentId,
   onSelectAgent,
   onCreateAgent,
+  onImportAgent,
+  onBatchCreate,
+  onBroadcast,
+  onUpdateAgent,
   onDeleteAgent,
+  onArchiveAgent,
+  onRestoreAgent,
   onCreatePR,
   onMerge,
+  onEditEnvironment,
+  onRunSetup,
+  onEditTasks,
+  onOpenJobs,
+  onClearMark,
+  onOpenRepoSettings,
   onOpenSettings,
 }: SidebarProps) {
   const [contextMenu, setContextMenu] = useState<{
@@ -28,6 +78,63 @@ export default function Sidebar({
     x: number
     y: number
   } | null>(null)
+  const [editing, setEditing] = useState<{
+    agentId: string
+    name: string
+    description: string
+    branch: string
+  } | null>(null)
+  const [editError, setEditError] = useState<string | null>(null)
+  const [saving, setSaving] = useState(false)
+  const [showArchived, setShowArchived] = useState(false)
+
+  const activeAgents = agents.filter((a) => !a.archivedAt)
+  const archivedAgents = agents.filter((a) => a.archivedAt)
+  const contextAgent = contextMenu ? agents.find((a) => a.id === contextMenu.agentId) : undefined
+
+  const startEditing = (agent: Agent) => {
+    setEditing({
+      agentId: agent.id,
+      name: agent.name,
+      description: agent.description || '',
+      branch: agent.branch,
+    })
+    setEditError(null)
+  }
+
+  const cancelEditing = () => {
+    if (!saving) {
+      setEditing(null)
+      setEditError(null)
+    }
+  }
+
+  const saveEditing = async () => {
+    if (!editing || !editing.name.trim()) return
+    setSaving(true)
+    setEditError(null)
+    try {
+      await onUpdateAgent(editing.agentId, {
+        name: editing.name.trim(),
+        description: editing.description.trim(),
+        branch: editing.branch.trim(),
+      })
+      setEditing(null)
+    } catch (err) {
+      setEditError(err instanceof Error ? err.message : 'Failed to update agent')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleEditKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Escape') {
+      cancelEditing()
+    } else if (e.key === 'Enter' && !(e.target instanceof HTMLTextAreaElement)) {
+      e.preventDefault()
+      saveEditing()
+    }
+  }
 
   const handleContextMenu = (e: React.MouseEvent, agentId: string) => {
     e.preventDefault()
@@ -36,11 +143,38 @@ export default function Sidebar({
 
   const closeContextMenu = () => setContextMenu(null)
 
+  const getStatusTitle = (agent: Agent) => {
+    const positions = (agent.tabs || []).map((t) => t.queuePosition).filter((p): p is number => !!p)
+    if (agent.status !== 'queued' || positions.length === 0) return agent.status
+    return `queued (position ${Math.min(...positions)})`
+  }
+
+  const renderResources = (agentId: string) => {
+    const usage = resources.get(agentId)
+    if (!usage) return null
+    const warning = usage.warnings.length > 0
+    return (
+      <div
+        className={`${styles.agentResources} ${warning ? styles.resourceWarning : ''}`}
+        title={getResourceTitle(usage)}
+      >
+        {warning && '⚠ '}
+        CPU {usage.total.cpuPercent}% · {formatBytes(usage.total.rssBytes)} · {usage.total.processCount} proc
+      </div>
+    )
+  }
+
   const getStatusColor = (status: Agent['status']) => {
     switch (status) {
       case 'running':
         return 'var(--success)'
+      case 'busy':
+        return 'var(--accent)'
+      case 'waiting':
+      case 'setting-up':
+        return 'var(--warning)'
       case 'stopped':
+      case 'setup-failed':
         return 'var(--danger)'
       default:
         return 'var(--text-muted)'
@@ -51,8 +185,18 @@ export default function Sidebar({
     switch (status) {
       case 'running':
         return '●'
+      case 'busy':
+        return '◉'
+      case 'queued':
+        return '◷'
+      case 'waiting':
+        return '◆'
       case 'stopped':
         return '○'
+      case 'setting-up':
+        return '◐'
+      case 'setup-failed':
+        return '✕'
       default:
         return '◌'
     }
@@ -62,20 +206,84 @@ export default function Sidebar({
     <div className={styles.sidebar} onClick={closeContextMenu}>
       <div className={styles.header}>
         <h1 className={styles.title}>AI Agents</h1>
-        <button className={styles.addButton} onClick={onCreateAgent} title="Create new agent">
-          +
-        </button>
+        <div className={styles.headerActions}>
+          <button
+            className={styles.importButton}
+            onClick={onImportAgent}
+            title="Import existing branch or worktree"
+          >
+            ⤓
+          </button>
+          <button
+            className={styles.importButton}
+            onClick={onBatchCreate}
+            title="Create agents from a task list"
+          >
+            ⧉
+          </button>
+          <button
+            className={styles.importButton}
+            onClick={onBroadcast}
+            title="Send input to several tabs"
+          >
+            ⇶
+          </button>
+          <button className={styles.addButton} onClick={onCreateAgent} title="Create new agent">
+            +
+          </button>
+        </div>
       </div>
 
       <div className={styles.agentList}>
-        {agents.length === 0 ? (
+        {activeAgents.length === 0 ? (
           <div className={styles.emptyState}>
             No agents yet.
             <br />
             Click + to create one.
           </div>
         ) : (
-          agents.map((agent) => (
+          activeAgents.map((agent) => editing?.agentId === agent.id ? (
+            <div
+              key={agent.id}
+              className={styles.editForm}
+              onClick={(e) => e.stopPropagation()}
+              onKeyDown={handleEditKeyDown}
+            >
+              <input
+                className={styles.editInput}
+                value={editing.name}
+                onChange={(e) => setEditing({ ...editing, name: e.target.value })}
+                placeholder="Agent name"
+                autoFocus
+              />
+              <input
+                className={styles.editInput}
+                value={editing.branch}
+                onChange={(e) => setEditing({ ...editing, branch: e.target.value })}
+                placeholder="Branch"
+              />
+              <textarea
+                className={styles.editInput}
+                value={editing.description}
+                onChange={(e) => setEditing({ ...editing, description: e.target.value })}
+                placeholder="What is this agent working on?"
+                rows={3}
+              />
+              {editError && <div className={styles.editError}>{editError}</div>}
+              <div className={styles.editActions}>
+                <button className={styles.editCancel} onClick={cancelEditing} disabled={saving}>
+                  Cancel
+                </button>
+                <button
+                  className={styles.editSave}
+                  onClick={saveEditing}
+                  disabled={saving || !editing.name.trim()}
+                >
+                  {saving ? 'Saving...' : 'Save'}
+                </button>
+              </div>
+            </div>
+          ) : (
             <div
               key={agent.id}
               className={`${styles.agentItem} ${
@@ -85,18 +293,78 @@ export default function Sidebar({
               onContextMenu={(e) => handleContextMenu(e, agent.id)}
             >
               <span
-                className={styles.statusIndicator}
+                className={`${styles.statusIndicator} ${agent.status === 'waiting' ? styles.attention : ''}`}
                 style={{ color: getStatusColor(agent.status) }}
+                title={getStatusTitle(agent)}
               >
                 {getStatusIcon(agent.status)}
               </span>
-              <div className={styles.agentInfo}>
-                <div className={styles.agentName}>{agent.name}</div>
+              <div className={styles.agentInfo} title={agent.description}>
+                <div
+                  className={styles.agentName}
+                  onDoubleClick={(e) => {
+                    e.stopPropagation()
+                    startEditing(agent)
+                  }}
+                >
+                  {agent.name}
+                </div>
                 <div className={styles.agentBranch}>{agent.branch}</div>
+                {renderResources(agent.id)}
+                {agent.mark && (
+                  <button
+                    className={styles.markBadge}
+                    onClick={(e) => {
+                      e.stopPropagation()
+                      onClearMark(agent.id)
+                    }}
+                    title={`Marked at ${new Date(agent.mark.markedAt).toLocaleTimeString()}, click to clear`}
+                  >
+                    ⚑ {agent.mark.label}
+                  </button>
+                )}
+                {agent.description && (
+                  <div className={styles.agentDescription}>{agent.description}</div>
+                )}
               </div>
             </div>
           ))
         )}
+
+        {archivedAgents.length > 0 && (
+          <div className={styles.archivedSection}>
+            <button
+              className={styles.archivedHeader}
+              onClick={() => setShowArchived((prev) => !prev)}
+            >
+              {showArchived ? '▾' : '▸'} Archived ({archivedAgents.length})
+            </button>
+            {showArchived && archivedAgents.map((agent) => (
+              <div
+                key={agent.id}
+                className={`${styles.agentItem} ${styles.archived}`}
+                onContextMenu={(e) => handleContextMenu(e, agent.id)}
+                title={agent.description}
+              >
+                <span className={styles.statusIndicator}>◌</span>
+                <div className={styles.agentInfo}>
+                  <div className={styles.agentName}>{agent.name}</div>
+                  <div className={styles.agentBranch}>{agent.branch}</div>
+                </div>
+                <button
+                  className={styles.restoreButton}
+                  onClick={(e) => {
+                    e.stopPropagation()
+                    onRestoreAgent(agent.id)
+                  }}
+                  title="Recreate the worktree from the branch"
+                >
+                  Restore
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
       </div>
 
       <div className={styles.footer}>
@@ -111,24 +379,113 @@ export default function Sidebar({
           style={{ top: contextMenu.y, left: contextMenu.x }}
           onClick={(e) => e.stopPropagation()}
         >
-          <button
-            className={styles.contextMenuItem}
-            onClick={() => {
-              onMerge(contextMenu.agentId)
-              closeContextMenu()
-            }}
-          >
-            Merge to Main
-          </button>
-          <button
-            className={styles.contextMenuItem}
-            onClick={() => {
-              onCreatePR(contextMenu.agentId)
-              closeContextMenu()
-            }}
-          >
-            Create PR (GitHub)
-          </button>
+          {contextAgent?.archivedAt ? (
+            <button
+              className={styles.contextMenuItem}
+              onClick={() => {
+                onRestoreAgent(contextMenu.agentId)
+                closeContextMenu()
+              }}
+            >
+              Restore
+            </button>
+          ) : (
+            <>
+              <button
+                className={styles.contextMenuItem}
+                onClick={() => {
+                  if (contextAgent) startEditing(contextAgent)
+                  closeContextMenu()
+                }}
+              >
+                Edit
+              </button>
+              <button
+                className={styles.contextMenuItem}
+                onClick={() => {
+                  if (contextAgent) onEditTasks({ agentId: contextAgent.id, name: contextAgent.name })
+                  closeContextMenu()
+                }}
+              >
+                Tasks...
+              </button>
+              <button
+                className={styles.contextMenuItem}
+                onClick={() => {
+                  if (contextAgent) onOpenJobs({ agentId: contextAgent.id, name: contextAgent.name })
+                  closeContextMenu()
+                }}
+              >
+                Jobs...
+              </button>
+              <button
+                className={styles.contextMenuItem}
+                onClick={() => {
+                  if (contextAgent) {
+                    onEditEnvironment({ kind: 'agent', agentId: contextAgent.id, name: contextAgent.name })
+                  }
+                  closeContextMenu()
+                }}
+              >
+                Environment...
+              </button>
+              <button
+                className={styles.contextMenuItem}
+                onClick={() => {
+                  if (contextAgent) onEditEnvironment({ kind: 'repo', repo: contextAgent.sourceRepo })
+                  closeContextMenu()
+                }}
+              >
+                Repository Environment...
+              </button>
+              <button
+                className={styles.contextMenuItem}
+                onClick={() => {
+                  if (contextAgent) onOpenRepoSettings(contextAgent.sourceRepo)
+                  closeContextMenu()
+                }}
+              >
+                Repository Settings...
+              </button>
+              <button
+                className={styles.contextMenuItem}
+                onClick={() => {
+                  onRunSetup(contextMenu.agentId)
+                  closeContextMenu()
+                }}
+                disabled={contextAgent?.status === 'setting-up'}
+              >
+                Run Setup
+              </button>
+              <button
+                className={styles.contextMenuItem}
+                onClick={() => {
+                  onMerge(contextMenu.agentId)
+                  closeContextMenu()
+                }}
+              >
+                Merge to Main
+              </button>
+              <button
+                className={styles.contextMenuItem}
+                onClick={() => {
+                  onCreatePR(contextMenu.agentId)
+                  closeContextMenu()
+                }}
+              >
+                Create PR (GitHub)
+              </button>
+              <button
+                className={styles.contextMenuItem}
+                onClick={() => {
+                  onArchiveAgent(contextMenu.agentId)
+                  closeContextMenu()
+                }}
+              >
+                Archive
+              </button>
+            </>
+          )}
           <button
             className={`${styles.contextMenuItem} ${styles.danger}`}
             onClick={() => {
@@ -0,0 +1,346 @@
+import { useState, useEffect } from 'react'
+import type { Agent, Snippet } from '../../shared/types'
+import styles from './CreateAgentDialog.module.css'
+
+interface SnippetsDialogProps {
+  agent: Agent | null // Agent of the terminal panel the snippet goes into
+  hasControl: boolean
+  onInsert: (text: string) => void
+  onClose: () => void
+}
+
+type SnippetDraft = Omit<Snippet, 'id' | 'tags'> & { id?: string; tags: string }
+
+const PLACEHOLDER_PATTERN = /\{\{\s*([\w.-]+)\s*\}\}/g
+
+// Placeholders filled from the agent without asking
+function getAgentValues(agent: Agent): Record<string, string> {
+  return {
+    name: agent.name,
+    branch: agent.branch,
+    workDir: agent.workDir,
+    sourceRepo: agent.sourceRepo,
+    baseRef: agent.baseRef || '',
+    description: agent.description || '',
+  }
+}
+
+function getPlaceholders(text: string): string[] {
+  return [...new Set(Array.from(text.matchAll(PLACEHOLDER_PATTERN), (m) => m[1]))]
+}
+
+function fillPlaceholders(text: string, values: Record<string, string>): string {
+  return text.replace(PLACEHOLDER_PATTERN, (match, name: string) => values[name] ?? match)
+}
+
+export default function SnippetsDialog({ agent, hasControl, onInsert, onClose }: SnippetsDialogProps) {
+  const [snippets, setSnippets] = useState<Snippet[]>([])
+  const [query, setQuery] = useState('')
+  const [draft, setDraft] = useState<SnippetDraft | null>(null)
+  const [prompt, setPrompt] = useState<{ snippet: Snippet; values: Record<string, string> } | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (agent) {
+      fetchSnippets()
+    }
+  }, [agent?.id])
+
+  const fetchSnippets = async () => {
+    setError(null)
+    try {
+      const response = await fetch('/api/snippets')
+      if (!response.ok) {
+        const data = await response.json()
+        throw new Error(data.error || 'Failed to load snippets')
+      }
+      const data = await response.json()
+      setSnippets(data.snippets || [])
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load snippets')
+    }
+  }
+
+  if (!agent) return null
+
+  const agentValues = getAgentValues(agent)
+  const search = query.trim().toLowerCase()
+  const visible = snippets.filter(
+    (s) =>
+      !search ||
+      s.name.toLowerCase().includes(search) ||
+      s.text.toLowerCase().includes(search) ||
+      s.tags.some((t) => t.toLowerCase().includes(search))
+  )
+
+  const insert = (snippet: Snippet, values: Record<string, string>) => {
+    onInsert(fillPlaceholders(snippet.text, { ...agentValues, ...values }))
+    handleClose()
+  }
+
+  const handleSelect = (snippet: Snippet) => {
+    const asked = getPlaceholders(snippet.text).filter((name) => !(name in agentValues))
+    if (asked.length === 0) {
+      insert(snippet, {})
+    } else {
+      setPrompt({ snippet, values: Object.fromEntries(asked.map((name) => [name, ''])) })
+    }
+  }
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!draft) return
+    setError(null)
+    setLoading(true)
+
+    try {
+      const response = await fetch(draft.id ? `/api/snippets/${draft.id}` : '/api/snippets', {
+        method: draft.id ? 'PUT' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          name: draft.name,
+          text: draft.text,
+          tags: draft.tags.split(','),
+        }),
+      })
+      if (!response.ok) {
+        const data = await response.json()
+        throw new Error(data.error || 'Failed to save snippet')
+      }
+      setDraft(null)
+      await fetchSnippets()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save snippet')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleDelete = async (snippet: Snippet) => {
+    if (!confirm(`Delete snippet "${snippet.name}"?`)) return
+    setError(null)
+    try {
+      const response = await fetch(`/api/snippets/${snippet.id}`, { method: 'DELETE' })
+      if (!response.ok) {
+        const data = await response.json()
+        throw new Error(data.error || 'Failed to delete snippet')
+      }
+      await fetchSnippets()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete snippet')
+    }
+  }
+
+  const handleClose = () => {
+    if (!loading) {
+      setQuery('')
+      setDraft(null)
+      setPrompt(null)
+      setError(null)
+      onClose()
+    }
+  }
+
+  const renderPrompt = () => {
+    if (!prompt) return null
+    return (
+      <form
+        onSubmit={(e) => {
+          e.preventDefault()
+          insert(prompt.snippet, prompt.values)
+        }}
+      >
+        {Object.entries(prompt.values).map(([name, value], index) => (
+          <div key={name} className={styles.field}>
+            <label className={styles.label} htmlFor={`snippetVar-${name}`}>
+              {name}
+            </label>
+            <input
+              id={`snippetVar-${name}`}
+              type="text"
+              className={styles.input}
+              value={value}
+              onChange={(e) => setPrompt({ ...prompt, values: { ...prompt.values, [name]: e.target.value } })}
+              autoFocus={index === 0}
+            />
+          </div>
+        ))}
+
+        <div className={styles.field}>
+          <label className={styles.label}>Preview</label>
+          <pre className={styles.taskText}>
+            {fillPlaceholders(prompt.snippet.text, { ...agentValues, ...prompt.values })}
+          </pre>
+        </div>
+
+        <div className={styles.actions}>
+          <button type="button" className={styles.cancelButton} onClick={() => setPrompt(null)}>
+            Back
+          </button>
+          <button type="submit" className={styles.createButton} disabled={!hasControl}>
+            Insert
+          </button>
+        </div>
+      </form>
+    )
+  }
+
+  const renderEditor = () => {
+    if (!draft) return null
+    return (
+      <form onSubmit={handleSave}>
+        <div className={styles.field}>
+          <label className={styles.label} htmlFor="snippetName">
+            Name
+          </label>
+          <input
+            id="snippetName"
+            type="text"
+            className={styles.input}
+            value={draft.name}
+            onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+            placeholder="Rebase on main"
+            required
+            autoFocus
+          />
+        </div>
+
+        <div className={styles.field}>
+          <label className={styles.label} htmlFor="snippetTags">
+            Tags
+          </label>
+          <input
+            id="snippetTags"
+            type="text"
+            className={styles.input}
+            value={draft.tags}
+            onChange={(e) => setDraft({ ...draft, tags: e.target.value })}
+            placeholder="git, review"
+          />
+          <p className={styles.hint}>Comma separated.</p>
+        </div>
+
+        <div className={styles.field}>
+          <label className={styles.label} htmlFor="snippetText">
+            Text
+          </label>
+          <textarea
+            id="snippetText"
+            className={styles.input}
+            value={draft.text}
+            onChange={(e) => setDraft({ ...draft, text: e.target.value })}
+            placeholder={'Review the changes on {{branch}} and fix {{issue}}'}
+            rows={6}
+            required
+          />
+          <p className={styles.hint}>
+            <code>{'{{name}}'}</code>, <code>{'{{branch}}'}</code>, <code>{'{{workDir}}'}</code>,{' '}
+            <code>{'{{sourceRepo}}'}</code>, <code>{'{{baseRef}}'}</code> and{' '}
+            <code>{'{{description}}'}</code> are filled from the agent; other placeholders
+            are asked for when the snippet is inserted.
+          </p>
+        </div>
+
+        {error && <div className={styles.error}>{error}</div>}
+
+        <div className={styles.actions}>
+          <button type="button" className={styles.cancelButton} onClick={() => setDraft(null)} disabled={loading}>
+            Cancel
+          </button>
+          <button type="submit" className={styles.createButton} disabled={loading}>
+            {loading ? 'Saving...' : 'Save'}
+          </button>
+        </div>
+      </form>
+    )
+  }
+
+  const renderList = () => (
+    <>
+      <div className={styles.field}>
+        <input
+          type="text"
+          className={styles.input}
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="Search by name, tag or text"
+          autoFocus
+        />
+      </div>
+
+      <div className={styles.field}>
+        <div className={styles.candidateHeader}>
+          <label className={styles.label}>Snippets</label>
+          <button
+            type="button"
+            className={styles.linkButton}
+            onClick={() => setDraft({ name: '', text: '', tags: '' })}
+          >
+            + New snippet
+          </button>
+        </div>
+        {visible.length === 0 ? (
+          <p className={styles.hint}>{snippets.length === 0 ? 'No snippets yet.' : 'No matching snippets.'}</p>
+        ) : (
+          <div className={styles.envList}>
+            {visible.map((snippet) => (
+              <div key={snippet.id} className={styles.taskRow}>
+                <button
+                  type="button"
+                  className={styles.candidate}
+                  onClick={() => handleSelect(snippet)}
+                  disabled={!hasControl}
+                  title={snippet.text}
+                >
+                  <span className={styles.candidateName}>{snippet.name}</span>
+                  <span className={styles.candidateMeta}>
+                    {snippet.tags.length > 0 ? snippet.tags.map((t) => `#${t}`).join(' ') : snippet.text}
+                  </span>
+                </button>
+                <button
+                  type="button"
+                  className={styles.envRemove}
+                  onClick={() => setDraft({ ...snippet, tags: snippet.tags.join(', ') })}
+                  title="Edit snippet"
+                >
+                  ✎
+                </button>
+                <button
+                  type="button"
+                  className={styles.envRemove}
+                  onClick={() => handleDelete(snippet)}
+                  title="Delete snippet"
+                >
+                  ×
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+        {!hasControl && (
+          <p className={styles.hint}>This panel is view only, gain control to insert snippets.</p>
+        )}
+      </div>
+
+      {error && <div className={styles.error}>{error}</div>}
+    </>
+  )
+
+  return (
+    <div className={styles.overlay} onClick={handleClose}>
+      <div className={styles.dialog} onClick={(e) => e.stopPropagation()}>
+        <div className={styles.header}>
+          <h2 className={styles.title}>
+            {draft ? (draft.id ? 'Edit Snippet' : 'New Snippet') : prompt ? prompt.snippet.name : 'Snippets'}
+          </h2>
+          <button className={styles.closeButton} onClick={handleClose}>
+            ×
+          </button>
+        </div>
+
+        {draft ? renderEditor() : prompt ? renderPrompt() : renderList()}
+      </div>
+    </div>
+  )
+}
@@ -1,25 +1,88 @@
-import type { TabInfo } from '../../shared/types'
+import { useState } from 'react'
+import type { TabInfo, LaunchProfile, RestartPolicy } from '../../shared/types'
 import styles from './TabBar.module.css'
 
 interface TabBarProps {
   tabs: TabInfo[]
   activeTabId: string | null
+  profiles?: LaunchProfile[]
   onSelectTab: (tabId: string) => void
-  onCreateTab: () => void
+  onCreateTab: (profile?: string) => void
   onCloseTab: (tabId: string) => void
+  onSetRestartPolicy: (tabId: string, policy: RestartPolicy) => void
 }
 
+const RESTART_MODES: { mode: RestartPolicy['mode']; label: string }[] = [
+  { mode: 'never', label: 'Never restart' },
+  { mode: 'on-failure', label: 'Restart on failure' },
+  { mode: 'always', label: 'Always restart' },
+]
+
 export default function TabBar({
   tabs,
   activeTabId,
+  profiles = [],
   onSelectTab,
   onCreateTab,
   onCloseTab,
+  onSetRestartPolicy,
 }: TabBarProps) {
+  const [showProfileMenu, setShowProfileMenu] = useState(false)
+  const [tabMenu, setTabMenu] = useState<{ tabId: string; x: number; y: number } | null>(null)
+
+  const menuTab = tabMenu ? tabs.find((t) => t.id === tabMenu.tabId) : undefined
+
+  const handleSelectRestartMode = (mode: RestartPolicy['mode']) => {
+    if (menuTab) {
+      // Keep retry settings that came from the launch profile
+      onSetRestartPolicy(menuTab.id, { ...menuTab.restartPolicy, mode })
+    }
+    setTabMenu(null)
+  }
+
+  const getTabTitle = (tab: TabInfo) => {
+    const lines = [tab.profile ? `${tab.name} (${tab.profile})` : tab.name]
+    if (tab.status === 'waiting') {
+      lines.push('Waiting for input')
+    } else if (tab.status === 'busy') {
+      lines.push('Busy')
+    } else if (tab.status === 'queued') {
+      lines.push(`Queued at position ${tab.queuePosition}, starts when a running tab exits`)
+    }
+    if (tab.status === 'stopped' && tab.exitCode !== undefined) {
+      lines.push(tab.signal ? `Killed by signal ${tab.signal}` : `Exited with code ${tab.exitCode}`)
+    }
+    if (tab.restartCount) {
+      lines.push(`Restarted ${tab.restartCount} time(s)`)
+    }
+    if (tab.nextRestartAt) {
+      lines.push('Restart pending')
+    }
+    return lines.join('\n')
+  }
+
+  const handleAddClick = () => {
+    // Without profiles there is nothing to choose, create a shell tab directly
+    if (profiles.length === 0) {
+      onCreateTab()
+    } else {
+      setShowProfileMenu((prev) => !prev)
+    }
+  }
+
+  const handleSelectProfile = (profile?: string) => {
+    setShowProfileMenu(false)
+    onCreateTab(profile)
+  }
+
   const getStatusColor = (status: TabInfo['status']) => {
     switch (status) {
       case 'running':
         return 'var(--success)'
+      case 'busy':
+        return 'var(--accent)'
+      case 'waiting':
+        return 'var(--warning)'
       case 'stopped':
         return 'var(--danger)'
       default:
@@ -35,12 +98,25 @@ export default function TabBar({
             key={tab.id}
             className={`${styles.tab} ${activeTabId === tab.id ? styles.active : ''}`}
             onClick={() => onSelectTab(tab.id)}
+            onContextMenu={(e) => {
+              e.preventDefault()
+              // Setup tabs only run setup commands, restart policies don't apply
+              if (tab.kind === 'setup') return
+              setTabMenu({ tabId: tab.id, x: e.clientX, y: e.clientY })
+            }}
+            title={getTabTitle(tab)}
           >
             <span
-              className={styles.statusDot}
+              className={`${styles.statusDot} ${tab.status === 'waiting' ? styles.attention : ''}`}
               style={{ background: getStatusColor(tab.status) }}
             />
             <span className={styles.tabName}>{tab.name}</span>
+            {tab.status === 'queued' && (
+              <span className={styles.queueBadge}>#{tab.queuePosition}</span>
+            )}
+            {!!tab.restartCount && (
+              <span className={styles.restartBadge}>↻{tab.restartCount}</span>
+            )}
             {tabs.length > 1 && (
               <button
                 className={styles.closeBtn}
@@ -56,9 +132,43 @@ export default function TabBar({
           </div>
         ))}
       </div>
-      <button className={styles.addBtn} onClick={onCreateTab} title="New tab">
-        +
-      </button>
+      {tabMenu && (
+        <>
+          <div className={styles.menuBackdrop} onClick={() => setTabMenu(null)} />
+          <div className={styles.tabMenu} style={{ top: tabMenu.y, left: tabMenu.x }}>
+            {RESTART_MODES.map(({ mode, label }) => (
+              <button
+                key={mode}
+                className={styles.profileMenuItem}
+                onClick={() => handleSelectRestartMode(mode)}
+              >
+                {(menuTab?.restartPolicy?.mode || 'never') === mode ? '✓ ' : ''}{label}
+              </button>
+            ))}
+          </div>
+        </>
+      )}
+      <div className={styles.addWrapper}>
+        <button className={styles.addBtn} onClick={handleAddClick} title="New tab">
+          +
+        </button>
+        {showProfileMenu && (
+          <div className={styles.profileMenu}>
+            <button className={styles.profileMenuItem} onClick={() => handleSelectProfile()}>
+              Shell
+            </button>
+            {profiles.map((p) => (
+              <button
+                key={p.name}
+                className={styles.profileMenuItem}
+                onClick={() => handleSelectProfile(p.name)}
+              >
+                {p.name}
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
     </div>
   )
 }
@@ -0,0 +1,204 @@
+import { useState, useEffect } from 'react'
+import type { AgentTasks, QueuedTask } from '../../shared/types'
+import styles from './CreateAgentDialog.module.css'
+
+export interface TaskQueueTarget {
+  agentId: string
+  name: string
+}
+
+interface TaskQueueDialogProps {
+  target: TaskQueueTarget | null
+  liveTasks?: AgentTasks // Latest tasks-updated push for the target agent
+  onClose: () => void
+}
+
+export default function TaskQueueDialog({ target, liveTasks, onClose }: TaskQueueDialogProps) {
+  const [tasks, setTasks] = useState<AgentTasks>({ pending: [], delivered: [] })
+  const [text, setText] = useState('')
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (target) {
+      setTasks({ pending: [], delivered: [] })
+      fetchTasks(target.agentId)
+    }
+  }, [target])
+
+  // Deliveries happen while the dialog is open
+  useEffect(() => {
+    if (liveTasks) {
+      setTasks(liveTasks)
+    }
+  }, [liveTasks])
+
+  const fetchTasks = async (agentId: string) => {
+    setError(null)
+    try {
+      const response = await fetch(`/api/agents/${agentId}/tasks`)
+      if (!response.ok) {
+        const data = await response.json()
+        throw new Error(data.error || 'Failed to load tasks')
+      }
+      setTasks(await response.json())
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load tasks')
+    }
+  }
+
+  if (!target) return null
+
+  const request = async (path: string, init: RequestInit, fallback: string) => {
+    setError(null)
+    try {
+      const response = await fetch(`/api/agents/${target.agentId}/tasks${path}`, {
+        ...init,
+        headers: { 'Content-Type': 'application/json' },
+      })
+      if (!response.ok) {
+        const data = await response.json()
+        throw new Error(data.error || fallback)
+      }
+      // The WebSocket pushes the updated queue
+      return true
+    } catch (err) {
+      setError(err instanceof Error ? err.message : fallback)
+      return false
+    }
+  }
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setLoading(true)
+    if (await request('', { method: 'POST', body: JSON.stringify({ text }) }, 'Failed to add task')) {
+      setText('')
+    }
+    setLoading(false)
+  }
+
+  const handleMove = (index: number, offset: number) => {
+    const order = tasks.pending.map((t) => t.id)
+    const [id] = order.splice(index, 1)
+    order.splice(index + offset, 0, id)
+    request('/order', { method: 'PUT', body: JSON.stringify({ taskIds: order }) }, 'Failed to reorder tasks')
+  }
+
+  const handleRemove = (task: QueuedTask) => {
+    request(`/${task.id}`, { method: 'DELETE' }, 'Failed to remove task')
+  }
+
+  const handleClose = () => {
+    setText('')
+    setError(null)
+    onClose()
+  }
+
+  return (
+    <div className={styles.overlay} onClick={handleClose}>
+      <div className={styles.dialog} onClick={(e) => e.stopPropagation()}>
+        <div className={styles.header}>
+          <h2 className={styles.title}>Tasks: {target.name}</h2>
+          <button className={styles.closeButton} onClick={handleClose}>
+            ×
+          </button>
+        </div>
+
+        <form onSubmit={handleAdd}>
+          <div className={styles.field}>
+            <p className={styles.hint}>
+              Queued tasks are typed into the agent's first tab one by one, each time
+              the tab goes idle. Tasks wait while the tab is stopped or asking for input.
+            </p>
+          </div>
+
+          <div className={styles.field}>
+            <label className={styles.label}>Queue</label>
+            {tasks.pending.length === 0 ? (
+              <p className={styles.hint}>No queued tasks.</p>
+            ) : (
+              <div className={styles.envList}>
+                {tasks.pending.map((task, index) => (
+                  <div key={task.id} className={styles.taskRow}>
+                    <span className={styles.taskText}>{task.text}</span>
+                    <button
+                      type="button"
+                      className={styles.envRemove}
+                      onClick={() => handleMove(index, -1)}
+                      disabled={index === 0}
+                      title="Move up"
+                    >
+                      ↑
+                    </button>
+                    <button
+                      type="button"
+                      className={styles.envRemove}
+                      onClick={() => handleMove(index, 1)}
+                      disabled={index === tasks.pending.length - 1}
+                      title="Move down"
+                    >
+                      ↓
+                    </button>
+                    <button
+                      type="button"
+                      className={styles.envRemove}
+                      onClick={() => handleRemove(task)}
+                      title="Remove task"
+                    >
+                      ×
+                    </button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <div className={styles.field}>
+            <label className={styles.label} htmlFor="taskText">
+              New Task
+            </label>
+            <textarea
+              id="taskText"
+              className={styles.input}
+              value={text}
+              onChange={(e) => setText(e.target.value)}
+              placeholder="Now add tests for the new endpoint"
+              rows={3}
+              autoFocus
+            />
+          </div>
+
+          <div className={styles.field}>
+            <label className={styles.label}>Delivered</label>
+            {tasks.delivered.length === 0 ? (
+              <p className={styles.hint}>No task has been delivered yet.</p>
+            ) : (
+              <div className={styles.candidateList}>
+                {[...tasks.delivered].reverse().map((task) => (
+                  <div key={task.id} className={styles.firingItem}>
+                    <span className={styles.taskText}>{task.text}</span>
+                    <span className={styles.firingMeta}>
+                      Queued {new Date(task.createdAt).toLocaleString()} · delivered{' '}
+                      {new Date(task.deliveredAt).toLocaleString()}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {error && <div className={styles.error}>{error}</div>}
+
+          <div className={styles.actions}>
+            <button type="button" className={styles.cancelButton} onClick={handleClose}>
+              Close
+            </button>
+            <button type="submit" className={styles.createButton} disabled={loading || !text.trim()}>
+              {loading ? 'Adding...' : 'Add Task'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  )
+}
@@ -18,6 +18,7 @@ interface TerminalProps {
 
 export interface TerminalHandle {
   write: (data: string) => void
+  paste: (text: string) => void // Sent through onInput, bracketed if the program enabled bracketed paste
   clear: () => void
   focus: () => void
 }
@@ -35,6 +36,9 @@ const Terminal = forwardRef<TerminalHandle, TerminalProps>(
       write: (data: string) => {
         terminalRef.current?.write(data)
       },
+      paste: (text: string) => {
+        terminalRef.current?.paste(text)
+      },
       clear: () => {
         terminalRef.current?.clear()
       },
@@ -1,5 +1,15 @@
 import { useState, useCallback, useEffect } from 'react'
-import type { Agent, CreateAgentRequest } from '../../shared/types'
+import type {
+  Agent,
+  TabInfo,
+  CreateAgentRequest,
+  ImportAgentRequest,
+  BatchCreateAgentsRequest,
+  BatchCreateAgentsResponse,
+  UpdateAgentRequest,
+  DeleteAgentOptions,
+  DeleteCheck,
+} from '../../shared/types'
 
 const API_BASE = '/api'
 
@@ -37,15 +47,112 @@ export function useAgents() {
     return agent
   }, [])
 
-  const deleteAgent = useCallback(async (agentId: string): Promise<void> => {
+  const createAgents = useCallback(async (request: BatchCreateAgentsRequest): Promise<BatchCreateAgentsResponse> => {
+    const response = await fetch(`${API_BASE}/agents/batch`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(request),
+    })
+    if (!response.ok) {
+      const data = await response.json()
+      throw new Error(data.error || 'Failed to create agents')
+    }
+    // WebSocket will push agents-updated
+    return response.json()
+  }, [])
+
+  const importAgent = useCallback(async (request: ImportAgentRequest): Promise<Agent> => {
+    const response = await fetch(`${API_BASE}/agents/import`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(request),
+    })
+    if (!response.ok) {
+      const data = await response.json()
+      throw new Error(data.error || 'Failed to import agent')
+    }
+    // WebSocket will push agents-updated
+    return response.json()
+  }, [])
+
+  const updateAgent = useCallback(async (agentId: string, updates: UpdateAgentRequest): Promise<Agent> => {
     const response = await fetch(`${API_BASE}/agents/${agentId}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(updates),
+    })
+    if (!response.ok) {
+      const data = await response.json()
+      throw new Error(data.error || 'Failed to update agent')
+    }
+    // WebSocket will push agents-updated
+    return response.json()
+  }, [])
+
+  // Resolves to the blocking work when the server refuses to delete without force
+  const deleteAgent = useCallback(async (
+    agentId: string,
+    options: DeleteAgentOptions = {}
+  ): Promise<DeleteCheck | null> => {
+    const params = new URLSearchParams()
+    if (options.force) params.set('force', 'true')
+    if (options.backup) params.set('backup', 'true')
+    const response = await fetch(`${API_BASE}/agents/${agentId}?${params}`, {
       method: 'DELETE',
     })
+    if (response.status === 409) {
+      return response.json()
+    }
     if (!response.ok) {
       const data = await response.json()
       throw new Error(data.error || 'Failed to delete agent')
     }
     // Don't remove locally - WebSocket will push agents-updated
+    return null
+  }, [])
+
+  const archiveAgent = useCallback(async (agentId: string): Promise<void> => {
+    const response = await fetch(`${API_BASE}/agents/${agentId}/archive`, {
+      method: 'POST',
+    })
+    if (!response.ok) {
+      const data = await response.json()
+      throw new Error(data.error || 'Failed to archive agent')
+    }
+    // WebSocket will push agents-updated
+  }, [])
+
+  const restoreAgent = useCallback(async (agentId: string): Promise<void> => {
+    const response = await fetch(`${API_BASE}/agents/${agentId}/restore`, {
+      method: 'POST',
+    })
+    if (!response.ok) {
+      const data = await response.json()
+      throw new Error(data.error || 'Failed to restore agent')
+    }
+    // WebSocket will push agents-updated
+  }, [])
+
+  const runSetup = useCallback(async (agentId: string): Promise<void> => {
+    const response = await fetch(`${API_BASE}/agents/${agentId}/setup`, {
+      method: 'POST',
+    })
+    if (!response.ok) {
+      const data = await response.json()
+      throw new Error(data.error || 'Failed to run setup')
+    }
+    // WebSocket will push agents-updated
+  }, [])
+
+  const clearMark = useCallback(async (agentId: string): Promise<void> => {
+    const response = await fetch(`${API_BASE}/agents/${agentId}/mark`, {
+      method: 'DELETE',
+    })
+    if (!response.ok) {
+      const data = await response.json()
+      throw new Error(data.error || 'Failed to clear mark')
+    }
+    // WebSocket will push agents-updated
   }, [])
 
   const updateAgentStatus = useCallback((agentId: string, status: Agent['status']) => {
@@ -54,6 +161,14 @@ export function useAgents() {
     )
   }, [])
 
+  const updateTabStatus = useCallback((agentId: string, tabId: string, status: TabInfo['status']) => {
+    setAgents((prev) =>
+      prev.map((a) => (a.id === agentId
+        ? { ...a, tabs: a.tabs?.map((t) => (t.id === tabId ? { ...t, status } : t)) }
+        : a))
+    )
+  }, [])
+
   const updateAgents = useCallback((newAgents: Agent[]) => {
     setAgents(newAgents)
   }, [])
@@ -101,8 +216,16 @@ export function useAgents() {
     loading,
     error,
     createAgent,
+    createAgents,
+    importAgent,
+    updateAgent,
     deleteAgent,
+    archiveAgent,
+    restoreAgent,
+    runSetup,
+    clearMark,
     updateAgentStatus,
+    updateTabStatus,
     updateAgents,
     createPR,
     getGitStatus,
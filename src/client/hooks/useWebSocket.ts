@@ -1,5 +1,20 @@
 import { useEffect, useRef, useCallback, useState } from 'react'
-import type { WSClientMessage, WSServerMessage, Agent, TabInfo, OutputChunk, BufferStats } from '../../shared/types'
+import type {
+  WSClientMessage,
+  WSServerMessage,
+  Agent,
+  TabInfo,
+  OutputChunk,
+  BufferStats,
+  RestartPolicy,
+  RuleFiring,
+  AgentResources,
+  AgentTasks,
+  BroadcastTarget,
+  BroadcastResult,
+  JobInfo,
+  JobStream,
+} from '../../shared/types'
 
 interface UseWebSocketOptions {
   onOutput: (data: string, tabId: string, seq: number) => void
@@ -10,6 +25,12 @@ interface UseWebSocketOptions {
   onTabStatus: (agentId: string, tabId: string, status: TabInfo['status']) => void
   onTabCreated: (agentId: string, tab: TabInfo) => void
   onTabClosed: (agentId: string, tabId: string) => void
+  onRuleFired: (firing: RuleFiring) => void
+  onResources: (resources: AgentResources[]) => void
+  onTasksUpdated: (agentId: string, tasks: AgentTasks) => void
+  onBroadcastResult: (results: BroadcastResult[]) => void
+  onJobUpdated: (job: JobInfo) => void
+  onJobOutput: (jobId: string, stream: JobStream, data: string) => void
   onError: (message: string) => void
 }
 
@@ -97,6 +118,24 @@ export function useWebSocket(options: UseWebSocketOptions) {
       case 'tab-closed':
         options.onTabClosed(message.agentId, message.tabId)
         break
+      case 'rule-fired':
+        options.onRuleFired(message.firing)
+        break
+      case 'resources':
+        options.onResources(message.resources)
+        break
+      case 'tasks-updated':
+        options.onTasksUpdated(message.agentId, message.tasks)
+        break
+      case 'broadcast-result':
+        options.onBroadcastResult(message.results)
+        break
+      case 'job-updated':
+        options.onJobUpdated(message.job)
+        break
+      case 'job-output':
+        options.onJobOutput(message.jobId, message.stream, message.data)
+        break
       case 'control-changed':
         setHasControl(message.hasControl)
         break
@@ -124,6 +163,10 @@ export function useWebSocket(options: UseWebSocketOptions) {
     send({ type: 'input', data, tabId })
   }, [send])
 
+  const broadcastInput = useCallback((data: string, targets: BroadcastTarget[]) => {
+    send({ type: 'broadcast-input', data, targets })
+  }, [send])
+
   const resize = useCallback((cols: number, rows: number, tabId?: string) => {
     send({ type: 'resize', cols, rows, tabId })
   }, [send])
@@ -140,14 +183,18 @@ export function useWebSocket(options: UseWebSocketOptions) {
     send({ type: 'gain-control' })
   }, [send])
 
-  const createTab = useCallback((agentId: string, name?: string) => {
-    send({ type: 'create-tab', agentId, name })
+  const createTab = useCallback((agentId: string, name?: string, profile?: string) => {
+    send({ type: 'create-tab', agentId, name, profile })
   }, [send])
 
   const closeTab = useCallback((agentId: string, tabId: string) => {
     send({ type: 'close-tab', agentId, tabId })
   }, [send])
 
+  const setRestartPolicy = useCallback((agentId: string, tabId: string, policy: RestartPolicy) => {
+    send({ type: 'set-restart-policy', agentId, tabId, policy })
+  }, [send])
+
   const syncOutput = useCallback((agentId: string, tabId: string, fromSeq: number) => {
     send({ type: 'sync-output', agentId, tabId, fromSeq })
   }, [send])
@@ -156,6 +203,11 @@ export function useWebSocket(options: UseWebSocketOptions) {
     send({ type: 'get-buffer-stats', agentId, tabId })
   }, [send])
 
+  // Stream a job's output, starting with what it printed so far; null stops streaming
+  const watchJob = useCallback((agentId: string, jobId: string | null) => {
+    send({ type: 'watch-job', agentId, jobId })
+  }, [send])
+
   useEffect(() => {
     connect()
     return () => {
@@ -174,13 +226,16 @@ export function useWebSocket(options: UseWebSocketOptions) {
     attach,
     detach,
     sendInput,
+    broadcastInput,
     resize,
     startTab,
     stopTab,
     gainControl,
     createTab,
     closeTab,
+    setRestartPolicy,
     syncOutput,
     getBufferStats,
+    watchJob,
   }
 }
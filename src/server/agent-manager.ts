@@ -4,33 +4,190 @@ import { v4 as uuidv4 } from 'uuid'
 import * as path from 'path'
 import * as os from 'os'
 import * as fs from 'fs'
-import type { Agent, TabInfo, OutputChunk, BufferStats } from '../shared/types.js'
+import { exec, spawn, type ChildProcess } from 'child_process'
+import { promisify } from 'util'
+import type {
+  Agent,
+  TabInfo,
+  OutputChunk,
+  BufferStats,
+  LaunchProfile,
+  RestartPolicy,
+  BranchListResponse,
+  UpdateAgentRequest,
+  ImportAgentRequest,
+  ImportCandidates,
+  BatchCreateAgentsRequest,
+  BatchCreateAgentsResponse,
+  EnvSettings,
+  DeleteCheck,
+  DeleteAgentOptions,
+  TriggerRule,
+  RuleFiring,
+  ResourceUsage,
+  AgentResources,
+  AgentTasks,
+  QueuedTask,
+  BroadcastTarget,
+  BroadcastResult,
+  ExpectStep,
+  ExpectResult,
+  ExpectSequenceResponse,
+  OutputSyncResponse,
+  Job,
+  JobInfo,
+  JobStatus,
+  JobStream,
+  CreateJobRequest,
+} from '../shared/types.js'
 import type { Config } from '../shared/config.js'
 import { GitWorktreeManager } from './git-worktree.js'
+import { resolveEnv, maskEnv, mergeEnvUpdate } from './env-vars.js'
+import * as tmux from './tmux-session.js'
+import { ProcessMonitor } from './process-monitor.js'
+import {
+  validateRule,
+  compileRules,
+  ruleApplies,
+  findMatch,
+  callWebhook,
+  DEFAULT_COOLDOWN_MS,
+  type CompiledRule,
+} from './trigger-rules.js'
 import {
   getPersistedAgents,
   savePersistedAgent,
   removePersistedAgent,
-  updatePersistedAgentBuffer,
+  updatePersistedTabs,
+  updatePersistedAgentEnv,
+  updatePersistedTasks,
+  getRepoSettings,
+  getTriggerRules,
+  saveTriggerRules,
   type PersistedAgent,
+  type PersistedTab,
 } from './local-config.js'
 
-const MAX_CHUNKS = 1000 // Max number of chunks to keep per tab
+const execAsync = promisify(exec)
+
 const MAX_CHUNK_SIZE = 4096 // Merge small outputs into chunks up to this size
+const DEFAULT_OUTPUT_BUFFER_BYTES = 4 * 1024 * 1024
 const DEFAULT_TAB_NAME = 'Terminal'
+const SETUP_TAB_NAME = 'Setup'
+const DEFAULT_BRANCH_TEMPLATE = 'agent/{shortId}'
+const DEFAULT_MAX_RETRIES = 5
+const DEFAULT_BACKOFF_MS = 1000
+const MAX_BACKOFF_MS = 60000
+const RESTART_RESET_MS = 60000 // A process that ran this long starts a fresh series of retries
+const TEARDOWN_TIMEOUT_MS = 5 * 60 * 1000
+const BACKUP_REF_PREFIX = 'refs/aiagent-backup/'
+const DEFAULT_QUIET_MS = 2000
+const PROMPT_TAIL_SIZE = 2048 // Output kept per tab for prompt matching
+const RULE_TAIL_SIZE = 512 // Earlier output kept per tab so rule matches can span data boundaries
+const MAX_RULE_FIRINGS = 200
+const DEFAULT_RESOURCE_SAMPLE_MS = 5000
+const MAX_BATCH_SIZE = 20
+const TASK_NAME_LENGTH = 40
+const SUBMIT_DELAY_MS = 100
+const MAX_TASK_HISTORY = 50
+const DEFAULT_EXPECT_TIMEOUT_MS = 30000
+const MAX_EXPECT_OUTPUT = 1024 * 1024 // Output kept per expect step, older output is dropped
+const DEFAULT_OUTPUT_LIMIT = 200 // Chunks per output response
+const MAX_JOB_OUTPUT = 1024 * 1024 // Kept of each of a job's stdout and stderr, older output is dropped
+const MAX_JOB_HISTORY = 20 // Finished jobs kept per agent
+const JOB_KILL_GRACE_MS = 5000 // Between SIGTERM and SIGKILL when a job is cancelled
+
+// Escape sequences (CSI, OSC and two-byte) that would get in the way of prompt regexes
+const ANSI_PATTERN = /\x1b\[[0-?]*[ -/]*[@-~]|\x1b\][^\x07\x1b]*(?:\x07|\x1b\\)|\x1b[@-Z\\-_]/g
+
+// Agent name from the first line of a task description
+function nameFromTask(task: string): string {
+  const line = task.split('\n')[0].replace(/\s+/g, ' ').trim()
+  return line.length > TASK_NAME_LENGTH ? `${line.slice(0, TASK_NAME_LENGTH - 1).trimEnd()}…` : line
+}
+
+// Job without its output, as listed and broadcast
+function toJobInfo(job: Job): JobInfo {
+  const { stdout: _stdout, stderr: _stderr, ...info } = job
+  return info
+}
+
+// Tab states in which a process is alive
+function isActiveStatus(status: TabInfo['status']): boolean {
+  return status === 'running' || status === 'busy' || status === 'waiting'
+}
+
+// Compile prompt patterns case-insensitively, skipping invalid ones
+function compilePromptPatterns(patterns: string[]): RegExp[] {
+  const compiled: RegExp[] = []
+  for (const pattern of patterns) {
+    try {
+      compiled.push(new RegExp(pattern, 'i'))
+    } catch {
+      console.warn(`Ignoring invalid prompt pattern: ${pattern}`)
+    }
+  }
+  return compiled
+}
+
+// The end of a text that fits in maxBytes, without a partial character at the start
+function tailBytes(text: string, maxBytes: number): string {
+  const bytes = Buffer.from(text)
+  if (bytes.length <= maxBytes) return text
+  return bytes.subarray(bytes.length - maxBytes).toString().replace(/^\uFFFD+/, '')
+}
+
+// Turn an agent name into something usable inside a branch name
+function slugify(value: string): string {
+  return value
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 40)
+    .replace(/-+$/, '')
+}
 
 interface TabProcess {
   pty: pty.IPty | null
   info: TabInfo
   outputChunks: OutputChunk[]
+  bufferBytes: number // UTF-8 size of outputChunks, kept up to date as chunks come and go
+  evictedChunks: number
+  evictedBytes: number
+  spillStream: fs.WriteStream | null // Evicted output goes here with Config.outputSpillDir
   currentSeq: number
   pendingData: string // Buffer for merging small outputs
   logStream: fs.WriteStream | null
+  cols: number
+  rows: number
+  startedAt: number
+  restartTimer: NodeJS.Timeout | null
+  restartAttempts: number // Consecutive automatic restarts, drives backoff and maxRetries
+  sessionName: string | null // tmux session the pty is attached to, with the tmux backend
+  activityTimer: NodeJS.Timeout | null // Fires once output has been quiet for quietMs
+  recentOutput: string // Tail of the current output burst, matched against promptPatterns
+  promptPatterns: RegExp[]
+  ruleTail: string
+  ruleFiredAt: Map<string, number> // Rule id -> last firing in this tab, for cooldowns
+  panePid: number | null // Process in the tmux pane, looked up once per session
+  pendingInput: string | null // Typed into the tab once its process is ready, see deliverInput
+  bracketedPaste: boolean // The process turned on bracketed paste mode
+}
+
+interface JobProcess {
+  job: Job
+  child: ChildProcess | null // Leads its own process group, so cancelling reaches its children
+  timeoutTimer: NodeJS.Timeout | null
+  killTimer: NodeJS.Timeout | null
+  endStatus: JobStatus | null // Set when the job is killed on purpose, overrides the exit code
 }
 
 interface AgentProcess {
   agent: Agent
   tabs: Map<string, TabProcess>
+  env?: EnvSettings // Kept off Agent so secrets are never broadcast
+  tasks: AgentTasks
+  jobs: Map<string, JobProcess> // Oldest first
 }
 
 export class AgentManager extends EventEmitter {
@@ -39,15 +196,27 @@ export class AgentManager extends EventEmitter {
   private controlOwners: Map<string, string> = new Map() // agentId:tabId -> clientId
   private config: Config
   private flushTimers: Map<string, NodeJS.Timeout> = new Map()
+  private stoppedPtys: WeakSet<pty.IPty> = new WeakSet() // Killed on purpose, never auto-restarted
+  private rules: CompiledRule[] = []
+  private ruleFirings: RuleFiring[] = [] // Most recent last
+  private processMonitor = new ProcessMonitor()
+  private resourceTimer: NodeJS.Timeout | null = null
+  private resources: Map<string, AgentResources> = new Map() // Latest sample of agents with running tabs
+  private startQueue: { agentId: string; tabId: string }[] = [] // Tabs waiting for a free slot, oldest first
+  private bufferBytes = 0 // Output buffers of all tabs, for Config.totalOutputBufferBytes
 
   constructor(config: Config) {
     super()
+    // Every WebSocket client and every pending expect listens for output
+    this.setMaxListeners(0)
     this.config = config
+    this.rules = compileRules(getTriggerRules())
     const baseWorkDir = path.join(os.homedir(), '.aiagent-console', 'worktrees')
     this.worktreeManager = new GitWorktreeManager(baseWorkDir)
 
     // Load persisted agents on startup
     this.loadPersistedAgents()
+    this.startResourceSampling()
   }
 
   private loadPersistedAgents(): void {
@@ -55,8 +224,8 @@ export class AgentManager extends EventEmitter {
     console.log(`Loading ${persisted.length} persisted agent(s)...`)
 
     for (const pa of persisted) {
-      // Check if worktree still exists
-      if (!fs.existsSync(pa.workDir)) {
+      // Archived agents have no worktree by design
+      if (!pa.archivedAt && !fs.existsSync(pa.workDir)) {
         console.log(`Worktree for agent ${pa.name} no longer exists, removing...`)
         removePersistedAgent(pa.id)
         continue
@@ -65,41 +234,151 @@ export class AgentManager extends EventEmitter {
       const agent: Agent = {
         id: pa.id,
         name: pa.name,
+        description: pa.description,
         sourceRepo: pa.sourceRepo,
         workDir: pa.workDir,
         branch: pa.branch,
-        status: 'idle',
+        baseRef: pa.baseRef,
+        baseCommit: pa.baseCommit,
+        status: pa.archivedAt ? 'stopped' : 'idle',
         createdAt: pa.createdAt,
+        archivedAt: pa.archivedAt,
         tabs: [],
       }
 
-      // Create default tab with restored buffer as a single chunk
-      const defaultTabId = uuidv4()
-      const tabs = new Map<string, TabProcess>()
-      const initialChunks: OutputChunk[] = []
+      const tabs = pa.archivedAt ? new Map<string, TabProcess>() : this.createRestoredTabs(pa)
+      agent.tabs = Array.from(tabs.values()).map(t => t.info)
 
-      if (pa.outputBuffer) {
-        initialChunks.push({
-          seq: 0,
-          data: pa.outputBuffer,
-          timestamp: Date.now(),
-        })
+      this.agents.set(pa.id, {
+        agent,
+        tabs,
+        env: pa.env,
+        tasks: pa.tasks ?? { pending: [], delivered: [] },
+        jobs: new Map(),
+      })
+      this.trimRestoredTabs(pa.id, tabs)
+
+      console.log(`Loaded agent: ${pa.name} (${pa.id})${pa.archivedAt ? ' [archived]' : ''}`)
+    }
+
+    if (this.config.sessionBackend === 'tmux') {
+      this.reattachSessions()
+    }
+  }
+
+  // Attach to tmux sessions that kept running while the server was down
+  private reattachSessions(): void {
+    const sessions = new Set(tmux.listSessions())
+    if (sessions.size === 0) return
+
+    for (const [agentId, agentProcess] of this.agents) {
+      for (const [tabId, tabProcess] of agentProcess.tabs) {
+        if (!sessions.has(tmux.getSessionName(agentId, tabId))) continue
+
+        // Already running, so not subject to the running tab limits
+        try {
+          this.spawnTab(agentId, agentProcess, tabId, tabProcess)
+          console.log(`Reattached tab ${tabId} of agent ${agentProcess.agent.name}`)
+        } catch (error) {
+          console.error(`Failed to reattach tab ${tabId}:`, error)
+        }
+      }
+    }
+  }
+
+  private createTabProcess(
+    info: TabInfo,
+    outputChunks: OutputChunk[] = [],
+    nextSeq: number = outputChunks.length
+  ): TabProcess {
+    const bufferBytes = outputChunks.reduce((sum, c) => sum + Buffer.byteLength(c.data), 0)
+    this.bufferBytes += bufferBytes
+    return {
+      pty: null,
+      info,
+      outputChunks,
+      bufferBytes,
+      evictedChunks: 0,
+      evictedBytes: 0,
+      spillStream: null,
+      currentSeq: nextSeq,
+      pendingData: '',
+      logStream: null,
+      cols: 80,
+      rows: 24,
+      startedAt: 0,
+      restartTimer: null,
+      restartAttempts: 0,
+      sessionName: null,
+      activityTimer: null,
+      recentOutput: '',
+      promptPatterns: [],
+      ruleTail: '',
+      ruleFiredAt: new Map(),
+      panePid: null,
+      pendingInput: null,
+      bracketedPaste: false,
+    }
+  }
+
+  private createTabInfo(name: string, profile?: string): TabInfo {
+    return {
+      id: uuidv4(),
+      name,
+      status: 'idle',
+      profile,
+      restartPolicy: profile ? this.getLaunchProfile(profile)?.restartPolicy : undefined,
+    }
+  }
+
+  // Recreate the tabs of a persisted agent with their ids, seeded with their saved scrollback
+  // cut to the tab's output buffer limit
+  private createRestoredTabs(pa: PersistedAgent): Map<string, TabProcess> {
+    const tabs = new Map<string, TabProcess>()
+    const tabLimit = this.config.outputBufferBytes || DEFAULT_OUTPUT_BUFFER_BYTES
+
+    if (pa.tabs?.length) {
+      for (const pt of pa.tabs) {
+        const info: TabInfo = {
+          id: pt.id,
+          name: pt.name,
+          status: 'idle',
+          kind: pt.kind,
+          profile: pt.profile,
+          restartPolicy: pt.restartPolicy,
+        }
+        // The saved scrollback takes the last seq the tab had, so clients that saw it don't receive it again
+        const nextSeq = Math.max(pt.nextSeq ?? 0, pt.outputBuffer ? 1 : 0)
+        const chunks: OutputChunk[] = pt.outputBuffer
+          ? [{ seq: nextSeq - 1, data: tailBytes(pt.outputBuffer, tabLimit), timestamp: Date.now() }]
+          : []
+        tabs.set(info.id, this.createTabProcess(info, chunks, nextSeq))
       }
+      return tabs
+    }
 
-      tabs.set(defaultTabId, {
-        pty: null,
-        info: { id: defaultTabId, name: DEFAULT_TAB_NAME, status: 'idle' },
-        outputChunks: initialChunks,
-        currentSeq: initialChunks.length,
-        pendingData: '',
-        logStream: null,
+    // Agents saved before tabs were persisted only have the default tab
+    const initialChunks: OutputChunk[] = []
+
+    // Restore buffer as a single chunk
+    if (pa.outputBuffer) {
+      initialChunks.push({
+        seq: 0,
+        data: tailBytes(pa.outputBuffer, tabLimit),
+        timestamp: Date.now(),
       })
+    }
 
-      agent.tabs = [{ id: defaultTabId, name: DEFAULT_TAB_NAME, status: 'idle' }]
+    const defaultTab = this.createTabInfo(DEFAULT_TAB_NAME, pa.profile)
+    tabs.set(defaultTab.id, this.createTabProcess(defaultTab, initialChunks))
 
-      this.agents.set(pa.id, { agent, tabs })
+    return tabs
+  }
 
-      console.log(`Loaded agent: ${pa.name} (${pa.id})`)
+  // Restored scrollback counts toward the total output buffer limit like any other output
+  private trimRestoredTabs(agentId: string, tabs: Map<string, TabProcess>): void {
+    for (const tabProcess of tabs.values()) {
+      this.trimOutputBuffers(agentId, tabProcess)
     }
   }
 
@@ -131,6 +410,42 @@ export class AgentManager extends EventEmitter {
     }
   }
 
+  // Write the same input to several tabs; tabs controlled by another client and stopped tabs are skipped
+  broadcastInput(data: string, targets: BroadcastTarget[], clientId: string): BroadcastResult[] {
+    const results: BroadcastResult[] = []
+    const seen = new Set<string>()
+
+    for (const target of targets) {
+      const agentProcess = this.agents.get(target.agentId)
+      if (!agentProcess) {
+        results.push({ ...target, delivered: false, reason: 'Agent not found' })
+        continue
+      }
+      const tabProcess = target.tabId ? agentProcess.tabs.get(target.tabId) : this.getFirstTab(agentProcess)
+      if (!tabProcess) {
+        results.push({ ...target, delivered: false, reason: 'Tab not found' })
+        continue
+      }
+
+      const tabId = tabProcess.info.id
+      const key = this.getControlKey(target.agentId, tabId)
+      if (seen.has(key)) continue
+      seen.add(key)
+
+      const result = { agentId: target.agentId, tabId }
+      const owner = this.controlOwners.get(key)
+      if (owner && owner !== clientId) {
+        results.push({ ...result, delivered: false, reason: 'Controlled by another client' })
+      } else if (!tabProcess.pty) {
+        results.push({ ...result, delivered: false, reason: 'Not running' })
+      } else {
+        tabProcess.pty.write(data)
+        results.push({ ...result, delivered: true })
+      }
+    }
+    return results
+  }
+
   // Get output chunks from a specific sequence number
   getOutputChunks(agentId: string, tabId: string, fromSeq: number = 0): { chunks: OutputChunk[]; lastSeq: number } {
     const agentProcess = this.agents.get(agentId)
@@ -139,13 +454,61 @@ export class AgentManager extends EventEmitter {
       return { chunks: [], lastSeq: -1 }
     }
 
-    const chunks = tabProcess.outputChunks.filter(c => c.seq >= fromSeq)
+    // Seqs are consecutive, so the first wanted chunk is found by offset
+    const { outputChunks } = tabProcess
+    const start = outputChunks.length > 0 ? Math.max(0, fromSeq - outputChunks[0].seq) : 0
+    const chunks = outputChunks.slice(start)
     return {
       chunks,
       lastSeq: tabProcess.currentSeq - 1,
     }
   }
 
+  // Up to limit chunks from a seq on; hasMore tells whether later chunks were left out
+  getOutputSync(agentId: string, tabId: string, fromSeq: number, limit: number = DEFAULT_OUTPUT_LIMIT): OutputSyncResponse {
+    const { chunks, lastSeq } = this.getOutputChunks(agentId, tabId, fromSeq)
+    return {
+      chunks: chunks.slice(0, limit),
+      lastSeq,
+      hasMore: chunks.length > limit,
+    }
+  }
+
+  // Resolves once the tab has output at or after fromSeq, stops or is closed, or after timeoutMs.
+  // A tab that isn't running has no output coming, so there is nothing to wait for.
+  waitForOutput(agentId: string, tabId: string, fromSeq: number, timeoutMs: number, signal?: AbortSignal): Promise<void> {
+    const tabProcess = this.agents.get(agentId)?.tabs.get(tabId)
+    if (!tabProcess || !tabProcess.pty || tabProcess.currentSeq > fromSeq || signal?.aborted) {
+      return Promise.resolve()
+    }
+
+    return new Promise((resolve) => {
+      const done = () => {
+        clearTimeout(timer)
+        this.off('pty-data', onData)
+        this.off('tab-status', onStatus)
+        this.off('tab-closed', onClosed)
+        signal?.removeEventListener('abort', done)
+        resolve()
+      }
+      const onData = (a: string, t: string, _data: string, seq: number) => {
+        if (a === agentId && t === tabId && seq >= fromSeq) done()
+      }
+      const onStatus = (a: string, t: string, status: TabInfo['status']) => {
+        if (a === agentId && t === tabId && status === 'stopped') done()
+      }
+      const onClosed = (a: string, t: string) => {
+        if (a === agentId && t === tabId) done()
+      }
+
+      const timer = setTimeout(done, timeoutMs)
+      this.on('pty-data', onData)
+      this.on('tab-status', onStatus)
+      this.on('tab-closed', onClosed)
+      signal?.addEventListener('abort', done)
+    })
+  }
+
   // Get the last sequence number for a tab
   getLastSeq(agentId: string, tabId: string): number {
     const agentProcess = this.agents.get(agentId)
@@ -157,16 +520,20 @@ export class AgentManager extends EventEmitter {
   getBufferStats(agentId: string, tabId: string): BufferStats {
     const agentProcess = this.agents.get(agentId)
     const tabProcess = agentProcess?.tabs.get(tabId)
-    if (!tabProcess || tabProcess.outputChunks.length === 0) {
-      return { chunkCount: 0, totalSize: 0, firstSeq: -1, lastSeq: -1 }
+    const limitBytes = this.config.outputBufferBytes || DEFAULT_OUTPUT_BUFFER_BYTES
+    if (!tabProcess) {
+      return { chunkCount: 0, totalSize: 0, firstSeq: -1, lastSeq: -1, limitBytes, evictedChunks: 0, evictedBytes: 0 }
     }
 
-    const totalSize = tabProcess.outputChunks.reduce((sum, c) => sum + c.data.length, 0)
     return {
       chunkCount: tabProcess.outputChunks.length,
-      totalSize,
-      firstSeq: tabProcess.outputChunks[0].seq,
+      totalSize: tabProcess.bufferBytes,
+      firstSeq: tabProcess.outputChunks[0]?.seq ?? -1,
       lastSeq: tabProcess.currentSeq - 1,
+      limitBytes,
+      evictedChunks: tabProcess.evictedChunks,
+      evictedBytes: tabProcess.evictedBytes,
+      spillPath: tabProcess.spillStream ? String(tabProcess.spillStream.path) : undefined,
     }
   }
 
@@ -178,6 +545,115 @@ export class AgentManager extends EventEmitter {
     return tabProcess.outputChunks.map(c => c.data).join('')
   }
 
+  // Send the step's input, then wait for its output to match or go quiet, for the tab to exit or for the timeout.
+  // Aborting the signal ends the wait early as a timeout.
+  async expect(agentId: string, tabId: string, step: ExpectStep, signal?: AbortSignal): Promise<ExpectResult> {
+    const tabProcess = this.agents.get(agentId)?.tabs.get(tabId)
+    if (!tabProcess) {
+      throw new Error(`Tab not found: ${tabId}`)
+    }
+    if (!tabProcess.pty) {
+      throw new Error(`Tab is not running: ${tabId}`)
+    }
+    const pattern = this.compileExpectPattern(step)
+    const quietMs = step.quietMs ?? this.config.quietMs ?? DEFAULT_QUIET_MS
+    const timeoutMs = step.timeoutMs ?? DEFAULT_EXPECT_TIMEOUT_MS
+
+    // Output still buffered was produced before the step and gets the seq before fromSeq
+    this.flushPendingData(agentId, tabId)
+    const fromSeq = tabProcess.currentSeq
+    const startedAt = Date.now()
+
+    return new Promise((resolve) => {
+      let output = ''
+      let toSeq = fromSeq - 1
+      let quietTimer: NodeJS.Timeout | null = null
+
+      const finish = (outcome: ExpectResult['outcome'], match?: RegExpExecArray) => {
+        clearTimeout(timeoutTimer)
+        if (quietTimer) clearTimeout(quietTimer)
+        this.off('pty-data', onData)
+        this.off('tab-status', onStatus)
+        signal?.removeEventListener('abort', onAbort)
+        resolve({
+          outcome,
+          match: match?.[0],
+          groups: match?.slice(1),
+          output,
+          fromSeq,
+          toSeq,
+          startedAt,
+          durationMs: Date.now() - startedAt,
+        })
+      }
+
+      const waitForQuiet = () => {
+        if (pattern) return
+        if (quietTimer) clearTimeout(quietTimer)
+        quietTimer = setTimeout(() => finish('quiet'), quietMs)
+      }
+
+      const onData = (a: string, t: string, data: string, seq: number) => {
+        if (a !== agentId || t !== tabId) return
+        output = (output + data.replace(ANSI_PATTERN, '')).slice(-MAX_EXPECT_OUTPUT)
+        toSeq = seq
+        const match = pattern?.exec(output)
+        if (match) {
+          finish('matched', match)
+        } else {
+          waitForQuiet()
+        }
+      }
+
+      // The last output is flushed before the stopped status is emitted
+      const onStatus = (a: string, t: string, status: TabInfo['status']) => {
+        if (a === agentId && t === tabId && status === 'stopped') {
+          finish('exited')
+        }
+      }
+
+      const onAbort = () => finish('timeout')
+
+      const timeoutTimer = setTimeout(() => finish('timeout'), timeoutMs)
+      if (signal?.aborted) {
+        onAbort()
+        return
+      }
+      this.on('pty-data', onData)
+      this.on('tab-status', onStatus)
+      signal?.addEventListener('abort', onAbort)
+      waitForQuiet()
+      if (step.send) {
+        tabProcess.pty!.write(step.send)
+      }
+    })
+  }
+
+  // Run expect steps in order, stopping at the first one that times out or whose process exits
+  async expectSequence(agentId: string, tabId: string, steps: ExpectStep[], signal?: AbortSignal): Promise<ExpectSequenceResponse> {
+    // Reject bad patterns before any input is sent
+    steps.forEach(step => this.compileExpectPattern(step))
+
+    const results: ExpectResult[] = []
+    for (const step of steps) {
+      const result = await this.expect(agentId, tabId, step, signal)
+      results.push(result)
+      if (result.outcome === 'timeout' || result.outcome === 'exited') {
+        return { results, completed: false }
+      }
+    }
+    return { results, completed: true }
+  }
+
+  private compileExpectPattern(step: ExpectStep): RegExp | null {
+    if (!step.expect) return null
+    try {
+      return new RegExp(step.expect)
+    } catch {
+      throw new Error(`Invalid expect pattern: ${step.expect}`)
+    }
+  }
+
   // Add output chunk with sequence number
   private addOutputChunk(agentId: string, tabId: string, data: string): OutputChunk {
     const agentProcess = this.agents.get(agentId)
@@ -192,18 +668,94 @@ export class AgentManager extends EventEmitter {
       timestamp: Date.now(),
     }
 
+    const size = Buffer.byteLength(data)
     tabProcess.outputChunks.push(chunk)
+    tabProcess.bufferBytes += size
+    this.bufferBytes += size
+    this.trimOutputBuffers(agentId, tabProcess)
+
+    return chunk
+  }
 
-    // Debug: log chunk creation
-    const totalSize = tabProcess.outputChunks.reduce((sum, c) => sum + c.data.length, 0)
-    console.log(`[DEBUG] Chunk added: seq=${chunk.seq}, size=${data.length}B, total=${totalSize}B, data preview: ${JSON.stringify(data.slice(0, 50))}`)
+  // Keep the tab within Config.outputBufferBytes, then all tabs within totalOutputBufferBytes
+  // by evicting the oldest chunks of any tab
+  private trimOutputBuffers(agentId: string, tabProcess: TabProcess): void {
+    const tabLimit = this.config.outputBufferBytes || DEFAULT_OUTPUT_BUFFER_BYTES
+    if (tabProcess.bufferBytes > tabLimit) {
+      this.evictOutput(agentId, tabProcess, tabProcess.bufferBytes - tabLimit)
+    }
 
-    // Trim old chunks if we have too many
-    if (tabProcess.outputChunks.length > MAX_CHUNKS) {
-      tabProcess.outputChunks = tabProcess.outputChunks.slice(-MAX_CHUNKS)
+    const totalLimit = this.config.totalOutputBufferBytes
+    while (totalLimit && this.bufferBytes > totalLimit) {
+      // The tab with the oldest chunk gives up, in one go, its chunks older than those of any other tab
+      let oldest: { agentId: string; tabProcess: TabProcess; timestamp: number } | null = null
+      let nextOldest = Infinity
+      for (const [id, agentProcess] of this.agents) {
+        for (const tab of agentProcess.tabs.values()) {
+          if (tab.outputChunks.length < (tab.pty ? 2 : 1)) continue
+          const timestamp = tab.outputChunks[0].timestamp
+          if (!oldest || timestamp < oldest.timestamp) {
+            nextOldest = Math.min(nextOldest, oldest?.timestamp ?? Infinity)
+            oldest = { agentId: id, tabProcess: tab, timestamp }
+          } else {
+            nextOldest = Math.min(nextOldest, timestamp)
+          }
+        }
+      }
+      if (!oldest) break
+      this.evictOutput(oldest.agentId, oldest.tabProcess, this.bufferBytes - totalLimit, nextOldest)
     }
+  }
 
-    return chunk
+  // Drop the oldest chunks until at least bytes are freed or, after the first, a chunk is newer than
+  // before. The newest chunk of a running tab always stays, so it can go over its limit by at most one chunk.
+  private evictOutput(agentId: string, tabProcess: TabProcess, bytes: number, before: number = Infinity): void {
+    const chunks = tabProcess.outputChunks
+    const keep = tabProcess.pty ? 1 : 0
+    let count = 0
+    let freed = 0
+    while (freed < bytes && count < chunks.length - keep && (count === 0 || chunks[count].timestamp <= before)) {
+      freed += Buffer.byteLength(chunks[count].data)
+      count++
+    }
+    if (count === 0) return
+
+    const evicted = chunks.splice(0, count)
+    tabProcess.bufferBytes -= freed
+    this.bufferBytes -= freed
+    tabProcess.evictedChunks += count
+    tabProcess.evictedBytes += freed
+    this.spillOutput(agentId, tabProcess, evicted)
+  }
+
+  // Append evicted output to <outputSpillDir>/<agentId>/<tabId>.log
+  private spillOutput(agentId: string, tabProcess: TabProcess, chunks: OutputChunk[]): void {
+    if (!this.config.outputSpillDir) return
+
+    if (!tabProcess.spillStream) {
+      try {
+        const dir = path.join(this.config.outputSpillDir, agentId)
+        fs.mkdirSync(dir, { recursive: true })
+        tabProcess.spillStream = fs.createWriteStream(path.join(dir, `${tabProcess.info.id}.log`), { flags: 'a' })
+        tabProcess.spillStream.on('error', (error) => console.error('Failed to write spilled output:', error))
+      } catch (error) {
+        console.error('Failed to create spill file:', error)
+        return
+      }
+    }
+    for (const chunk of chunks) {
+      tabProcess.spillStream.write(chunk.data)
+    }
+  }
+
+  // Give back a closed tab's share of the total buffer size and close its spill file
+  private releaseOutputBuffer(tabProcess: TabProcess): void {
+    this.bufferBytes -= tabProcess.bufferBytes
+    tabProcess.bufferBytes = 0
+    if (tabProcess.spillStream) {
+      tabProcess.spillStream.end()
+      tabProcess.spillStream = null
+    }
   }
 
   // Flush pending data to a chunk
@@ -230,7 +782,7 @@ export class AgentManager extends EventEmitter {
   private handlePtyData(agentId: string, tabId: string, data: string): void {
     const agentProcess = this.agents.get(agentId)
     const tabProcess = agentProcess?.tabs.get(tabId)
-    if (!tabProcess) return
+    if (!agentProcess || !tabProcess) return
 
     // Write to log
     if (tabProcess.logStream) {
@@ -238,6 +790,9 @@ export class AgentManager extends EventEmitter {
     }
 
     tabProcess.pendingData += data
+    this.trackPasteMode(tabProcess, data)
+    this.trackActivity(agentId, agentProcess, tabProcess, data)
+    this.applyRules(agentId, agentProcess, tabProcess, data)
 
     // If pending data is large enough, flush immediately
     if (tabProcess.pendingData.length >= MAX_CHUNK_SIZE) {
@@ -253,6 +808,323 @@ export class AgentManager extends EventEmitter {
     }
   }
 
+  // Mark the tab busy while it produces output; once output stops, it is waiting if the
+  // last burst matches a prompt pattern and running otherwise
+  private trackActivity(agentId: string, agentProcess: AgentProcess, tabProcess: TabProcess, data: string): void {
+    // Setup tabs report progress through the agent's setup status instead
+    if (tabProcess.info.kind === 'setup' || !isActiveStatus(tabProcess.info.status)) return
+
+    if (tabProcess.info.status !== 'busy') {
+      tabProcess.recentOutput = ''
+      this.setTabStatus(agentId, agentProcess, tabProcess, 'busy')
+    }
+    tabProcess.recentOutput = (tabProcess.recentOutput + data).slice(-PROMPT_TAIL_SIZE)
+
+    if (tabProcess.activityTimer) {
+      clearTimeout(tabProcess.activityTimer)
+    }
+    tabProcess.activityTimer = setTimeout(() => {
+      tabProcess.activityTimer = null
+      if (tabProcess.info.status !== 'busy') return
+
+      const text = tabProcess.recentOutput.replace(ANSI_PATTERN, '')
+      const waiting = tabProcess.promptPatterns.some(pattern => pattern.test(text))
+      this.setTabStatus(agentId, agentProcess, tabProcess, waiting ? 'waiting' : 'running')
+    }, this.config.quietMs ?? DEFAULT_QUIET_MS)
+  }
+
+  // Follow the process's bracketed paste mode, typed text is only wrapped in paste markers when it is on
+  private trackPasteMode(tabProcess: TabProcess, data: string): void {
+    const on = data.lastIndexOf('\x1b[?2004h')
+    const off = data.lastIndexOf('\x1b[?2004l')
+    if (on !== off) {
+      tabProcess.bracketedPaste = on > off
+    }
+  }
+
+  private clearActivity(tabProcess: TabProcess): void {
+    if (tabProcess.activityTimer) {
+      clearTimeout(tabProcess.activityTimer)
+      tabProcess.activityTimer = null
+    }
+    tabProcess.recentOutput = ''
+  }
+
+  private setTabStatus(agentId: string, agentProcess: AgentProcess, tabProcess: TabProcess, status: TabInfo['status']): void {
+    if (tabProcess.info.status === status) return
+    tabProcess.info.status = status
+    this.emit('tab-status', agentId, tabProcess.info.id, status)
+    this.refreshAgentStatus(agentId, agentProcess)
+    this.deliverInput(agentId, agentProcess, tabProcess)
+  }
+
+  // Type pending input, or else the next queued task, once the tab's process went quiet after
+  // printing something and the agent's setup is done
+  private deliverInput(agentId: string, agentProcess: AgentProcess, tabProcess: TabProcess): void {
+    const { agent } = agentProcess
+    if (!tabProcess.pty) return
+    // recentOutput is cleared on spawn and on delivery, so it is empty until the process responded
+    if (!tabProcess.recentOutput) return
+    if (tabProcess.info.status !== 'running' && tabProcess.info.status !== 'waiting') return
+    if (agent.status === 'setting-up' || agent.status === 'setup-failed') return
+
+    if (tabProcess.pendingInput) {
+      this.typeIntoTab(agentId, agentProcess, tabProcess, tabProcess.pendingInput)
+      tabProcess.pendingInput = null
+      return
+    }
+
+    // A waiting prompt expects an answer, not the next task
+    if (tabProcess.info.status !== 'running' || this.getFirstTab(agentProcess) !== tabProcess) return
+    const task = agentProcess.tasks.pending.shift()
+    if (!task) return
+
+    this.typeIntoTab(agentId, agentProcess, tabProcess, task.text)
+    agentProcess.tasks.delivered.push({ ...task, tabId: tabProcess.info.id, deliveredAt: Date.now() })
+    agentProcess.tasks.delivered = agentProcess.tasks.delivered.slice(-MAX_TASK_HISTORY)
+    this.saveTasks(agentId, agentProcess)
+  }
+
+  // Type text as if entered by the user. With bracketed paste on it arrives as one paste, so
+  // newlines in it don't submit it early.
+  private typeIntoTab(agentId: string, agentProcess: AgentProcess, tabProcess: TabProcess, text: string): void {
+    const ptyProcess = tabProcess.pty
+    if (!ptyProcess) return
+    ptyProcess.write(tabProcess.bracketedPaste ? `\x1b[200~${text}\x1b[201~` : text)
+    // TUIs that detect pastes by timing would take an Enter in the same write as a newline
+    setTimeout(() => {
+      if (tabProcess.pty === ptyProcess) {
+        ptyProcess.write('\r')
+      }
+    }, SUBMIT_DELAY_MS)
+    // Busy until the process responds, so nothing else is typed before it has taken this in
+    this.trackActivity(agentId, agentProcess, tabProcess, '')
+  }
+
+  // The tab tasks are typed into: the first one that isn't the setup tab
+  private getFirstTab(agentProcess: AgentProcess): TabProcess | undefined {
+    return Array.from(agentProcess.tabs.values()).find(t => t.info.kind !== 'setup')
+  }
+
+  // Match trigger rules against new output and fire the actions of those that match
+  private applyRules(agentId: string, agentProcess: AgentProcess, tabProcess: TabProcess, data: string): void {
+    if (this.rules.length === 0 || tabProcess.info.kind === 'setup') return
+
+    const text = data.replace(ANSI_PATTERN, '')
+    if (!text) return
+    const combined = tabProcess.ruleTail + text
+    const newFrom = tabProcess.ruleTail.length
+    tabProcess.ruleTail = combined.slice(-RULE_TAIL_SIZE)
+
+    for (const { rule, regex } of this.rules) {
+      if (!ruleApplies(rule, agentProcess.agent)) continue
+
+      const lastFired = tabProcess.ruleFiredAt.get(rule.id)
+      if (lastFired && Date.now() - lastFired < (rule.cooldownMs ?? DEFAULT_COOLDOWN_MS)) continue
+
+      const match = findMatch(regex, combined, newFrom)
+      if (match === null) continue
+
+      tabProcess.ruleFiredAt.set(rule.id, Date.now())
+      this.fireRule(agentId, agentProcess, tabProcess, rule, match)
+    }
+  }
+
+  private fireRule(agentId: string, agentProcess: AgentProcess, tabProcess: TabProcess, rule: TriggerRule, match: string): void {
+    const { agent } = agentProcess
+    const tabId = tabProcess.info.id
+    const firing: RuleFiring = {
+      ruleId: rule.id,
+      ruleName: rule.name,
+      agentId,
+      agentName: agent.name,
+      tabId,
+      match: match.slice(0, 200),
+      actions: rule.actions.map(a => a.type),
+      firedAt: Date.now(),
+    }
+
+    console.log(`Rule ${rule.name} fired in tab ${tabId} of agent ${agent.name}: ${JSON.stringify(firing.match)}`)
+    this.ruleFirings.push(firing)
+    if (this.ruleFirings.length > MAX_RULE_FIRINGS) {
+      this.ruleFirings.shift()
+    }
+
+    let stop = false
+    for (const action of rule.actions) {
+      switch (action.type) {
+        case 'notify':
+          firing.notify = action.message || rule.name
+          break
+        case 'mark':
+          agent.mark = { label: action.label || rule.name, ruleId: rule.id, markedAt: firing.firedAt }
+          this.emit('agents-updated', this.getAgents())
+          break
+        case 'send-input':
+          tabProcess.pty?.write(action.input)
+          break
+        case 'stop-tab':
+          // After the other actions, so input is sent before the tab goes away
+          stop = true
+          break
+        case 'webhook':
+          callWebhook(action.url, firing).catch((error) => {
+            firing.error = error instanceof Error ? error.message : String(error)
+            console.error(`Webhook of rule ${rule.name} failed:`, error)
+          })
+          break
+      }
+    }
+
+    this.emit('rule-fired', firing)
+
+    if (stop) {
+      this.stopTab(agentId, tabId)
+      this.emit('agents-updated', this.getAgents())
+    }
+  }
+
+  getRules(): TriggerRule[] {
+    return getTriggerRules()
+  }
+
+  // Replace all rules, e.g. from the settings dialog
+  setRules(rules: Partial<TriggerRule>[]): TriggerRule[] {
+    const validated = rules.map(validateRule)
+    saveTriggerRules(validated)
+    this.rules = compileRules(validated)
+    return validated
+  }
+
+  addRule(rule: Partial<TriggerRule>): TriggerRule {
+    const validated = validateRule({ ...rule, id: undefined })
+    this.setRules([...getTriggerRules(), validated])
+    return validated
+  }
+
+  deleteRule(ruleId: string): void {
+    const rules = getTriggerRules()
+    if (!rules.some(r => r.id === ruleId)) {
+      throw new Error(`Rule not found: ${ruleId}`)
+    }
+    this.setRules(rules.filter(r => r.id !== ruleId))
+  }
+
+  getRuleFirings(): RuleFiring[] {
+    return [...this.ruleFirings].reverse()
+  }
+
+  clearMark(agentId: string): Agent {
+    const agentProcess = this.agents.get(agentId)
+    if (!agentProcess) {
+      throw new Error(`Agent not found: ${agentId}`)
+    }
+    agentProcess.agent.mark = undefined
+    this.emit('agents-updated', this.getAgents())
+    return agentProcess.agent
+  }
+
+  private startResourceSampling(): void {
+    const interval = this.config.resourceSampleMs ?? DEFAULT_RESOURCE_SAMPLE_MS
+    if (!interval) return
+    if (!this.processMonitor.isSupported()) {
+      console.log('No /proc filesystem, resource monitoring is disabled')
+      return
+    }
+    this.resourceTimer = setInterval(() => this.sampleResources(), interval)
+  }
+
+  // The tab's own process; with tmux the pty only runs the tmux client
+  private getRootPid(tabProcess: TabProcess): number | null {
+    if (!tabProcess.pty) return null
+    if (!tabProcess.sessionName) return tabProcess.pty.pid
+    if (!tabProcess.panePid) {
+      tabProcess.panePid = tmux.getPanePid(tabProcess.sessionName)
+    }
+    return tabProcess.panePid
+  }
+
+  // Sample the process trees of all running tabs and broadcast the usage per agent
+  private sampleResources(): void {
+    const roots = new Map<number, { agentId: string; tabId: string }>()
+    for (const [agentId, agentProcess] of this.agents) {
+      for (const [tabId, tabProcess] of agentProcess.tabs) {
+        const pid = this.getRootPid(tabProcess)
+        if (pid) {
+          roots.set(pid, { agentId, tabId })
+        }
+      }
+    }
+
+    const hadResources = this.resources.size > 0
+    const usage = this.processMonitor.sample(Array.from(roots.keys()))
+    const resources = new Map<string, AgentResources>()
+
+    for (const [pid, { agentId, tabId }] of roots) {
+      const tabUsage = usage.get(pid)
+      if (!tabUsage) continue
+
+      let entry = resources.get(agentId)
+      if (!entry) {
+        entry = {
+          agentId,
+          total: { cpuPercent: 0, rssBytes: 0, processCount: 0 },
+          tabs: {},
+          warnings: [],
+          sampledAt: Date.now(),
+        }
+        resources.set(agentId, entry)
+      }
+      entry.tabs[tabId] = tabUsage
+      entry.total.cpuPercent += tabUsage.cpuPercent
+      entry.total.rssBytes += tabUsage.rssBytes
+      entry.total.processCount += tabUsage.processCount
+      if (tabUsage.longestRunning && tabUsage.longestRunning.elapsedMs > (entry.total.longestRunning?.elapsedMs ?? -1)) {
+        entry.total.longestRunning = tabUsage.longestRunning
+      }
+    }
+
+    for (const entry of resources.values()) {
+      entry.warnings = this.getResourceWarnings(entry.total)
+    }
+    this.resources = resources
+
+    // Nothing running before or now, clients already show no usage
+    if (resources.size > 0 || hadResources) {
+      this.emit('resources', Array.from(resources.values()))
+    }
+  }
+
+  private getResourceWarnings(usage: ResourceUsage): string[] {
+    const limits = this.config.resourceLimits || {}
+    const warnings: string[] = []
+    if (limits.cpuPercent && usage.cpuPercent > limits.cpuPercent) {
+      warnings.push(`CPU ${usage.cpuPercent}% exceeds ${limits.cpuPercent}%`)
+    }
+    const rssMb = Math.round(usage.rssBytes / 1024 / 1024)
+    if (limits.rssMb && rssMb > limits.rssMb) {
+      warnings.push(`Memory ${rssMb} MB exceeds ${limits.rssMb} MB`)
+    }
+    if (limits.processCount && usage.processCount > limits.processCount) {
+      warnings.push(`${usage.processCount} processes exceed ${limits.processCount}`)
+    }
+    return warnings
+  }
+
+  // Latest sample; agents without running tabs report no usage
+  getAgentResources(agentId: string): AgentResources {
+    if (!this.agents.has(agentId)) {
+      throw new Error(`Agent not found: ${agentId}`)
+    }
+    return this.resources.get(agentId) || {
+      agentId,
+      total: { cpuPercent: 0, rssBytes: 0, processCount: 0 },
+      tabs: {},
+      warnings: [],
+      sampledAt: Date.now(),
+    }
+  }
+
   // Create log file for a tab
   private createLogStream(agent: Agent, tabName: string): fs.WriteStream | null {
     if (!this.config.logEnabled || !this.config.logDir) {
@@ -282,76 +1154,585 @@ export class AgentManager extends EventEmitter {
     }
   }
 
-  async createAgent(name: string, sourceRepo: string): Promise<Agent> {
+  // Launch profiles
+  getLaunchProfiles(): LaunchProfile[] {
+    return this.config.launchProfiles || []
+  }
+
+  getLaunchProfile(name: string): LaunchProfile | undefined {
+    return this.getLaunchProfiles().find(p => p.name === name)
+  }
+
+  private assertLaunchProfile(name?: string): void {
+    if (name && !this.getLaunchProfile(name)) {
+      throw new Error(`Launch profile not found: ${name}`)
+    }
+  }
+
+  // Build the branch name from the per-repo template, falling back to the global one
+  private renderBranchName(id: string, name: string, sourceRepo: string): string {
+    const template = getRepoSettings(sourceRepo).branchTemplate
+      || this.config.branchTemplate
+      || DEFAULT_BRANCH_TEMPLATE
+
+    const now = new Date()
+    const date = `${now.getFullYear()}${String(now.getMonth() + 1).padStart(2, '0')}${String(now.getDate()).padStart(2, '0')}`
+    const shortId = id.slice(0, 8)
+    const values: Record<string, string> = {
+      name: slugify(name) || shortId,
+      date,
+      shortId,
+      user: slugify(os.userInfo().username) || 'user',
+    }
+
+    return template.replace(/\{(\w+)\}/g, (match, key: string) => values[key] ?? match)
+  }
+
+  async createAgent(
+    name: string,
+    sourceRepo: string,
+    profile?: string,
+    baseRef?: string,
+    branch?: string
+  ): Promise<Agent> {
+    this.assertLaunchProfile(profile)
+
     const id = uuidv4()
-    const branchName = `agent/${id.slice(0, 8)}`
+    const branchName = branch || this.renderBranchName(id, name, sourceRepo)
+    await this.worktreeManager.validateBranchName(branchName)
+    if (await this.worktreeManager.isLocalBranch(sourceRepo, branchName)) {
+      throw new Error(`Branch already exists: ${branchName}. Import it to use an existing branch`)
+    }
 
-    const { worktreePath, branch } = await this.worktreeManager.createWorktree(
+    const worktree = await this.worktreeManager.createWorktree(
       sourceRepo,
       id,
-      branchName
+      branchName,
+      baseRef
     )
 
-    // Create default tab
-    const defaultTabId = uuidv4()
-    const defaultTab: TabInfo = { id: defaultTabId, name: DEFAULT_TAB_NAME, status: 'idle' }
-
     const agent: Agent = {
       id,
       name,
       sourceRepo,
-      workDir: worktreePath,
-      branch,
+      workDir: worktree.worktreePath,
+      branch: worktree.branch,
+      baseRef: worktree.baseRef,
+      baseCommit: worktree.baseCommit,
       status: 'idle',
       createdAt: Date.now(),
-      tabs: [defaultTab],
     }
 
-    const tabs = new Map<string, TabProcess>()
-    tabs.set(defaultTabId, {
-      pty: null,
-      info: defaultTab,
-      outputChunks: [],
-      currentSeq: 0,
-      pendingData: '',
-      logStream: null,
-    })
-
-    this.agents.set(id, { agent, tabs })
+    this.registerAgent(agent, profile)
+    this.startSetup(id)
+    return agent
+  }
 
-    // Persist agent for recovery
-    savePersistedAgent({
-      id: agent.id,
-      name: agent.name,
-      sourceRepo: agent.sourceRepo,
-      workDir: agent.workDir,
-      branch: agent.branch,
-      createdAt: agent.createdAt,
-    })
+  // Create one agent per task, or count agents for the same job; a failing entry doesn't stop the rest
+  async createAgents(request: BatchCreateAgentsRequest): Promise<BatchCreateAgentsResponse> {
+    const { sourceRepo, profile, baseRef, count, sendTasks } = request
+    this.assertLaunchProfile(profile)
 
-    this.emit('agents-updated', this.getAgents())
+    const tasks = request.tasks?.map(t => t.trim()).filter(Boolean)
+    if (!tasks?.length === !count) {
+      throw new Error('Exactly one of tasks or count is required')
+    }
+    const size = tasks?.length || count!
+    if (!Number.isInteger(size) || size < 1 || size > MAX_BATCH_SIZE) {
+      throw new Error(`Batch size must be between 1 and ${MAX_BATCH_SIZE}`)
+    }
+    const name = request.name?.trim()
+    if (!tasks && !name) {
+      throw new Error('name is required with count')
+    }
+
+    const entries = tasks
+      ? tasks.map(task => ({ name: nameFromTask(task), task }))
+      : Array.from({ length: size }, (_, i) => ({ name: `${name} ${i + 1}`, task: request.task?.trim() || undefined }))
+
+    const result: BatchCreateAgentsResponse = { agents: [], errors: [] }
+    // One at a time, worktrees of the same repo can't be added concurrently
+    for (const [index, entry] of entries.entries()) {
+      try {
+        let agent = await this.createAgent(entry.name, sourceRepo, profile, baseRef)
+        if (entry.task) {
+          agent = await this.updateAgent(agent.id, { description: entry.task })
+          if (sendTasks) {
+            this.sendWhenReady(agent.id, entry.task)
+          }
+        }
+        result.agents.push(agent)
+      } catch (error) {
+        console.error(`Failed to create agent ${entry.name}:`, error)
+        result.errors.push({
+          index,
+          name: entry.name,
+          error: error instanceof Error ? error.message : String(error),
+        })
+      }
+    }
+    return result
+  }
+
+  // Start the agent's first tab and type the text once its process is ready for input
+  private sendWhenReady(agentId: string, text: string): void {
+    const agentProcess = this.agents.get(agentId)
+    const tabProcess = agentProcess && this.getFirstTab(agentProcess)
+    if (!tabProcess) return
+
+    tabProcess.pendingInput = text
+    this.startTab(agentId, tabProcess.info.id)
+  }
+
+  // Adopt an existing branch (checked out into a new worktree) or an existing worktree as an agent
+  async importAgent(request: ImportAgentRequest): Promise<Agent> {
+    const { name, sourceRepo, profile } = request
+    this.assertLaunchProfile(profile)
+
+    if (!!request.branch === !!request.worktreePath) {
+      throw new Error('Exactly one of branch or worktreePath is required')
+    }
+
+    const id = uuidv4()
+    let workDir: string
+    let branch: string
+
+    if (request.worktreePath) {
+      const worktreePath = path.resolve(request.worktreePath)
+      const entry = (await this.worktreeManager.listWorktrees(sourceRepo))
+        .find(w => path.resolve(w.path) === worktreePath)
+      if (!entry) {
+        throw new Error(`Not a worktree of ${sourceRepo}: ${worktreePath}`)
+      }
+      if (entry.main) {
+        throw new Error('Cannot adopt the main worktree of a repository')
+      }
+      if (!entry.branch) {
+        throw new Error(`Worktree has a detached HEAD: ${worktreePath}`)
+      }
+      const owner = this.getAgents().find(a => !a.archivedAt && path.resolve(a.workDir) === worktreePath)
+      if (owner) {
+        throw new Error(`Worktree already belongs to agent: ${owner.name}`)
+      }
+      workDir = entry.path
+      branch = entry.branch
+    } else {
+      // Remote branches are checked out as a local tracking branch of the same name
+      branch = request.branch!
+      if (!await this.worktreeManager.isLocalBranch(sourceRepo, branch)) {
+        const remoteBranches = await this.worktreeManager.listRemoteBranches(sourceRepo)
+        if (!remoteBranches.includes(branch)) {
+          throw new Error(`Branch not found: ${branch}`)
+        }
+        branch = branch.slice(branch.indexOf('/') + 1)
+      }
+      workDir = await this.worktreeManager.checkoutWorktree(sourceRepo, id, branch)
+    }
+
+    const base = await this.worktreeManager.findBase(sourceRepo, branch)
+
+    const agent: Agent = {
+      id,
+      name,
+      sourceRepo,
+      workDir,
+      branch,
+      baseRef: base?.baseRef,
+      baseCommit: base?.baseCommit,
+      status: 'idle',
+      createdAt: Date.now(),
+    }
+
+    this.registerAgent(agent, profile)
+    // Adopted worktrees are used as they are, new ones get the repo's setup
+    if (!request.worktreePath) {
+      this.startSetup(id)
+    }
+    return agent
+  }
+
+  // List branches and worktrees of a repo that could be adopted as agents
+  async getImportCandidates(sourceRepo: string, fetch: boolean = false): Promise<ImportCandidates> {
+    if (fetch) {
+      await this.worktreeManager.fetch(sourceRepo)
+    }
+
+    const [worktrees, { branches }, remoteBranches] = await Promise.all([
+      this.worktreeManager.listWorktrees(sourceRepo),
+      this.worktreeManager.listBranches(sourceRepo),
+      this.worktreeManager.listRemoteBranches(sourceRepo),
+    ])
+
+    const repo = path.resolve(sourceRepo)
+    const repoAgents = this.getAgents().filter(a => path.resolve(a.sourceRepo) === repo)
+    const agentForBranch = (branch: string) => repoAgents.find(a => a.branch === branch)?.id
+    const worktreeForBranch = (branch: string) => worktrees.find(w => w.branch === branch)?.path
+
+    return {
+      worktrees: worktrees.map(w => ({
+        ...w,
+        agentId: repoAgents.find(a => !a.archivedAt && path.resolve(a.workDir) === path.resolve(w.path))?.id,
+      })),
+      branches: [
+        ...branches.map(name => ({
+          name,
+          remote: false,
+          worktreePath: worktreeForBranch(name),
+          agentId: agentForBranch(name),
+        })),
+        // Remote branches without a local counterpart
+        ...remoteBranches
+          .filter(name => !branches.includes(name.slice(name.indexOf('/') + 1)))
+          .map(name => ({ name, remote: true })),
+      ],
+    }
+  }
+
+  // Save every tab of an agent with its scrollback, in tab order
+  private persistTabs(agentId: string): void {
+    // Archived agents have no live tabs, their saved ones are kept
+    const agentProcess = this.agents.get(agentId)
+    if (!agentProcess || agentProcess.agent.archivedAt) return
+
+    const tabs: PersistedTab[] = []
+    for (const [tabId, tabProcess] of agentProcess.tabs) {
+      this.flushPendingData(agentId, tabId)
+      tabs.push({
+        id: tabId,
+        name: tabProcess.info.name,
+        kind: tabProcess.info.kind,
+        profile: tabProcess.info.profile,
+        restartPolicy: tabProcess.info.restartPolicy,
+        outputBuffer: this.getOutputHistory(agentId, tabId),
+        nextSeq: tabProcess.currentSeq,
+      })
+    }
+    updatePersistedTabs(agentId, tabs)
+  }
+
+  // Add the default tab, then register and persist a newly created agent
+  private registerAgent(agent: Agent, profile?: string): Agent {
+    const defaultTab = this.createTabInfo(DEFAULT_TAB_NAME, profile)
+    agent.tabs = [defaultTab]
+
+    const tabs = new Map<string, TabProcess>()
+    tabs.set(defaultTab.id, this.createTabProcess(defaultTab))
+
+    this.agents.set(agent.id, { agent, tabs, tasks: { pending: [], delivered: [] }, jobs: new Map() })
+
+    // Persist agent for recovery
+    savePersistedAgent({
+      id: agent.id,
+      name: agent.name,
+      sourceRepo: agent.sourceRepo,
+      workDir: agent.workDir,
+      branch: agent.branch,
+      baseRef: agent.baseRef,
+      baseCommit: agent.baseCommit,
+      createdAt: agent.createdAt,
+    })
+    this.persistTabs(agent.id)
+
+    this.emit('agents-updated', this.getAgents())
 
     return agent
   }
 
-  createTab(agentId: string, name?: string): TabInfo {
+  // Save agent metadata; tabs and env are kept by the merge in savePersistedAgent
+  private persistAgent(agent: Agent): void {
+    savePersistedAgent({
+      id: agent.id,
+      name: agent.name,
+      description: agent.description,
+      sourceRepo: agent.sourceRepo,
+      workDir: agent.workDir,
+      branch: agent.branch,
+      baseRef: agent.baseRef,
+      baseCommit: agent.baseCommit,
+      createdAt: agent.createdAt,
+      archivedAt: agent.archivedAt,
+    })
+  }
+
+  async updateAgent(agentId: string, updates: UpdateAgentRequest): Promise<Agent> {
     const agentProcess = this.agents.get(agentId)
     if (!agentProcess) {
       throw new Error(`Agent not found: ${agentId}`)
     }
 
-    const tabId = uuidv4()
-    const tabName = name || `Terminal ${agentProcess.tabs.size + 1}`
-    const tabInfo: TabInfo = { id: tabId, name: tabName, status: 'idle' }
+    const agent = agentProcess.agent
 
-    agentProcess.tabs.set(tabId, {
-      pty: null,
-      info: tabInfo,
-      outputChunks: [],
-      currentSeq: 0,
-      pendingData: '',
-      logStream: null,
+    // Rename the branch first so a git failure leaves the metadata untouched
+    if (updates.branch && updates.branch !== agent.branch) {
+      await this.worktreeManager.renameBranch(agent.workDir, agent.branch, updates.branch)
+      agent.branch = updates.branch
+    }
+
+    if (updates.name !== undefined) {
+      agent.name = updates.name
+    }
+    if (updates.description !== undefined) {
+      agent.description = updates.description || undefined
+    }
+
+    this.persistAgent(agent)
+
+    this.emit('agents-updated', this.getAgents())
+
+    return this.getAgent(agentId)!
+  }
+
+  // Agent environment with secret values masked
+  getAgentEnv(agentId: string): EnvSettings {
+    const agentProcess = this.agents.get(agentId)
+    if (!agentProcess) {
+      throw new Error(`Agent not found: ${agentId}`)
+    }
+    return maskEnv(agentProcess.env)
+  }
+
+  // Replace the agent environment; applies to tabs started afterwards
+  updateAgentEnv(agentId: string, env: EnvSettings): EnvSettings {
+    const agentProcess = this.agents.get(agentId)
+    if (!agentProcess) {
+      throw new Error(`Agent not found: ${agentId}`)
+    }
+
+    agentProcess.env = mergeEnvUpdate(agentProcess.env, env)
+    updatePersistedAgentEnv(agentId, agentProcess.env)
+
+    return maskEnv(agentProcess.env)
+  }
+
+  getTasks(agentId: string): AgentTasks {
+    const agentProcess = this.agents.get(agentId)
+    if (!agentProcess) {
+      throw new Error(`Agent not found: ${agentId}`)
+    }
+    return agentProcess.tasks
+  }
+
+  // Queue a task; it is typed in right away if the first tab is already idle
+  addTask(agentId: string, text: string): QueuedTask {
+    const agentProcess = this.agents.get(agentId)
+    if (!agentProcess) {
+      throw new Error(`Agent not found: ${agentId}`)
+    }
+    if (!text.trim()) {
+      throw new Error('Task text is required')
+    }
+
+    const task: QueuedTask = { id: uuidv4(), text: text.trim(), createdAt: Date.now() }
+    agentProcess.tasks.pending.push(task)
+    this.saveTasks(agentId, agentProcess)
+
+    const tabProcess = this.getFirstTab(agentProcess)
+    if (tabProcess) {
+      this.deliverInput(agentId, agentProcess, tabProcess)
+    }
+    return task
+  }
+
+  // Reorder pending tasks by id; tasks missing from the list (e.g. queued meanwhile) keep their order at the end
+  reorderTasks(agentId: string, taskIds: string[]): AgentTasks {
+    const agentProcess = this.agents.get(agentId)
+    if (!agentProcess) {
+      throw new Error(`Agent not found: ${agentId}`)
+    }
+
+    const { pending } = agentProcess.tasks
+    const position = (task: QueuedTask) => {
+      const index = taskIds.indexOf(task.id)
+      return index === -1 ? taskIds.length + pending.indexOf(task) : index
+    }
+    agentProcess.tasks.pending = [...pending].sort((a, b) => position(a) - position(b))
+    this.saveTasks(agentId, agentProcess)
+    return agentProcess.tasks
+  }
+
+  removeTask(agentId: string, taskId: string): void {
+    const agentProcess = this.agents.get(agentId)
+    if (!agentProcess) {
+      throw new Error(`Agent not found: ${agentId}`)
+    }
+
+    const { pending } = agentProcess.tasks
+    if (!pending.some(t => t.id === taskId)) {
+      throw new Error(`Task not found: ${taskId}`)
+    }
+    agentProcess.tasks.pending = pending.filter(t => t.id !== taskId)
+    this.saveTasks(agentId, agentProcess)
+  }
+
+  private saveTasks(agentId: string, agentProcess: AgentProcess): void {
+    updatePersistedTasks(agentId, agentProcess.tasks)
+    this.emit('tasks-updated', agentId, agentProcess.tasks)
+  }
+
+  // Run a command in the worktree without a terminal. Output is collected on the job and
+  // emitted as job-output; job-updated is emitted when the job starts and when it ends.
+  runJob(agentId: string, request: CreateJobRequest): Job {
+    const agentProcess = this.agents.get(agentId)
+    if (!agentProcess) {
+      throw new Error(`Agent not found: ${agentId}`)
+    }
+    if (agentProcess.agent.archivedAt) {
+      throw new Error(`Agent is archived: ${agentId}`)
+    }
+    const command = request.command.trim()
+    if (!command) {
+      throw new Error('Job command is required')
+    }
+
+    const job: Job = {
+      id: uuidv4(),
+      agentId,
+      command,
+      status: 'running',
+      exitCode: null,
+      signal: null,
+      startedAt: Date.now(),
+      truncated: false,
+      stdout: '',
+      stderr: '',
+    }
+    const child = spawn(process.env.SHELL || '/bin/bash', ['-c', command], {
+      cwd: agentProcess.agent.workDir,
+      env: this.buildEnv(agentProcess),
+      stdio: ['ignore', 'pipe', 'pipe'],
+      detached: true,
     })
+    const jobProcess: JobProcess = { job, child, timeoutTimer: null, killTimer: null, endStatus: null }
+    agentProcess.jobs.set(job.id, jobProcess)
+
+    for (const stream of ['stdout', 'stderr'] as const) {
+      child[stream].setEncoding('utf-8')
+      child[stream].on('data', (data: string) => this.handleJobOutput(jobProcess, stream, data))
+    }
+    // A command that can't be spawned (e.g. the worktree is gone) reports error, possibly without close
+    child.on('error', (error) => {
+      this.handleJobOutput(jobProcess, 'stderr', `${error.message}\n`)
+      this.finishJob(agentProcess, jobProcess, null, null)
+    })
+    child.on('close', (code, signal) => this.finishJob(agentProcess, jobProcess, code, signal))
+
+    if (request.timeoutMs) {
+      jobProcess.timeoutTimer = setTimeout(() => this.killJob(jobProcess, 'timed-out'), request.timeoutMs)
+    }
+
+    this.emit('job-updated', toJobInfo(job))
+    return job
+  }
+
+  getJobs(agentId: string): JobInfo[] {
+    const agentProcess = this.agents.get(agentId)
+    if (!agentProcess) {
+      throw new Error(`Agent not found: ${agentId}`)
+    }
+    return Array.from(agentProcess.jobs.values(), (jp) => toJobInfo(jp.job))
+  }
+
+  getJob(agentId: string, jobId: string): Job | undefined {
+    return this.agents.get(agentId)?.jobs.get(jobId)?.job
+  }
+
+  // Kill a running job with its child processes; it ends as cancelled once they exited
+  cancelJob(agentId: string, jobId: string): JobInfo {
+    const jobProcess = this.agents.get(agentId)?.jobs.get(jobId)
+    if (!jobProcess) {
+      throw new Error(`Job not found: ${jobId}`)
+    }
+    if (jobProcess.job.status !== 'running') {
+      throw new Error(`Job is not running: ${jobId}`)
+    }
+    this.killJob(jobProcess, 'cancelled')
+    return toJobInfo(jobProcess.job)
+  }
+
+  private handleJobOutput(jobProcess: JobProcess, stream: JobStream, data: string): void {
+    const { job } = jobProcess
+    job[stream] += data
+    if (job[stream].length > MAX_JOB_OUTPUT) {
+      job[stream] = job[stream].slice(-MAX_JOB_OUTPUT)
+      job.truncated = true
+    }
+    this.emit('job-output', job.agentId, job.id, stream, data)
+  }
+
+  private killJob(jobProcess: JobProcess, status: JobStatus): void {
+    const { child } = jobProcess
+    if (!child || jobProcess.endStatus) return
+
+    jobProcess.endStatus = status
+    this.signalJob(child, 'SIGTERM')
+    jobProcess.killTimer = setTimeout(() => this.signalJob(child, 'SIGKILL'), JOB_KILL_GRACE_MS)
+  }
+
+  // Signal the job's whole process group, falling back to the shell alone
+  private signalJob(child: ChildProcess, signal: NodeJS.Signals): void {
+    try {
+      if (child.pid) {
+        process.kill(-child.pid, signal)
+        return
+      }
+    } catch {
+      // Group already gone
+    }
+    child.kill(signal)
+  }
+
+  private finishJob(
+    agentProcess: AgentProcess,
+    jobProcess: JobProcess,
+    exitCode: number | null,
+    signal: NodeJS.Signals | null
+  ): void {
+    const { job } = jobProcess
+    if (job.status !== 'running') return
+
+    if (jobProcess.timeoutTimer) clearTimeout(jobProcess.timeoutTimer)
+    if (jobProcess.killTimer) clearTimeout(jobProcess.killTimer)
+    jobProcess.child = null
+    jobProcess.timeoutTimer = null
+    jobProcess.killTimer = null
+
+    job.exitCode = exitCode
+    job.signal = signal
+    job.finishedAt = Date.now()
+    job.durationMs = job.finishedAt - job.startedAt
+    job.status = jobProcess.endStatus ?? (exitCode === 0 ? 'succeeded' : 'failed')
+
+    // Drop the oldest finished jobs beyond the history limit
+    const finished = Array.from(agentProcess.jobs.values()).filter((jp) => jp.job.status !== 'running')
+    for (const old of finished.slice(0, Math.max(0, finished.length - MAX_JOB_HISTORY))) {
+      agentProcess.jobs.delete(old.job.id)
+    }
+
+    this.emit('job-updated', toJobInfo(job))
+  }
+
+  // Cancel the agent's running jobs, e.g. before its worktree goes away
+  private disposeJobs(agentProcess: AgentProcess): void {
+    for (const jobProcess of agentProcess.jobs.values()) {
+      this.killJob(jobProcess, 'cancelled')
+    }
+  }
+
+  createTab(agentId: string, name?: string, profile?: string): TabInfo {
+    const agentProcess = this.agents.get(agentId)
+    if (!agentProcess) {
+      throw new Error(`Agent not found: ${agentId}`)
+    }
+    if (agentProcess.agent.archivedAt) {
+      throw new Error(`Agent is archived: ${agentId}`)
+    }
+    this.assertLaunchProfile(profile)
+
+    const tabName = name || profile || `Terminal ${agentProcess.tabs.size + 1}`
+    const tabInfo = this.createTabInfo(tabName, profile)
+
+    agentProcess.tabs.set(tabInfo.id, this.createTabProcess(tabInfo))
+    this.persistTabs(agentId)
 
     // Update agent tabs list
     agentProcess.agent.tabs = Array.from(agentProcess.tabs.values()).map(t => t.info)
@@ -362,6 +1743,22 @@ export class AgentManager extends EventEmitter {
     return tabInfo
   }
 
+  renameTab(agentId: string, tabId: string, name: string): TabInfo {
+    const tabProcess = this.agents.get(agentId)?.tabs.get(tabId)
+    if (!tabProcess) {
+      throw new Error(`Tab not found: ${tabId}`)
+    }
+    if (!name.trim()) {
+      throw new Error('Tab name is required')
+    }
+
+    tabProcess.info.name = name.trim()
+    this.persistTabs(agentId)
+
+    this.emit('agents-updated', this.getAgents())
+    return tabProcess.info
+  }
+
   closeTab(agentId: string, tabId: string): void {
     const agentProcess = this.agents.get(agentId)
     if (!agentProcess) {
@@ -382,34 +1779,37 @@ export class AgentManager extends EventEmitter {
     }
 
     // Kill PTY if running
-    if (tabProcess.pty) {
-      tabProcess.pty.kill()
-    }
+    this.killTabPty(tabProcess)
+    this.removeFromQueue(agentId, tabId)
 
     // Close log stream
     if (tabProcess.logStream) {
       tabProcess.logStream.end()
     }
+    this.releaseOutputBuffer(tabProcess)
 
     // Remove control
     this.controlOwners.delete(key)
 
     agentProcess.tabs.delete(tabId)
+    this.persistTabs(agentId)
+    this.promoteQueuedTabs()
 
     // Update agent tabs list
     agentProcess.agent.tabs = Array.from(agentProcess.tabs.values()).map(t => t.info)
 
+    // Closing the setup tab dismisses a failed setup
+    if (tabProcess.info.kind === 'setup' && agentProcess.agent.status === 'setup-failed') {
+      agentProcess.agent.status = 'idle'
+      this.updateAgentStatus(agentId, agentProcess)
+    }
+
     this.emit('tab-closed', agentId, tabId)
     this.emit('agents-updated', this.getAgents())
   }
 
-  async deleteAgent(agentId: string): Promise<void> {
-    const agentProcess = this.agents.get(agentId)
-    if (!agentProcess) {
-      throw new Error(`Agent not found: ${agentId}`)
-    }
-
-    // Close all tabs
+  // Kill every tab of an agent and release its resources
+  private disposeTabs(agentId: string, agentProcess: AgentProcess): void {
     for (const [tabId, tabProcess] of agentProcess.tabs) {
       // Clear flush timer
       const key = this.getControlKey(agentId, tabId)
@@ -422,17 +1822,151 @@ export class AgentManager extends EventEmitter {
       if (tabProcess.logStream) {
         tabProcess.logStream.end()
       }
-      if (tabProcess.pty) {
-        tabProcess.pty.kill()
-      }
+      this.releaseOutputBuffer(tabProcess)
+      this.killTabPty(tabProcess)
+      this.removeFromQueue(agentId, tabId)
       this.controlOwners.delete(key)
     }
+  }
 
-    // Remove worktree
-    await this.worktreeManager.removeWorktree(
-      agentProcess.agent.sourceRepo,
-      agentId
-    )
+  // Kill a tab's PTY on purpose, cancelling any pending automatic restart.
+  // With keepSession a tmux session is only detached, so its process keeps running.
+  private killTabPty(tabProcess: TabProcess, keepSession: boolean = false): void {
+    this.clearActivity(tabProcess)
+    if (tabProcess.restartTimer) {
+      clearTimeout(tabProcess.restartTimer)
+      tabProcess.restartTimer = null
+      tabProcess.info.nextRestartAt = undefined
+    }
+    if (tabProcess.pty) {
+      this.stoppedPtys.add(tabProcess.pty)
+      tabProcess.pty.kill()
+    }
+    if (tabProcess.sessionName && !keepSession) {
+      tmux.killSession(tabProcess.sessionName)
+      tabProcess.sessionName = null
+    }
+  }
+
+  // Uncommitted changes and unmerged commits that deleting the agent would leave behind
+  async checkDelete(agentId: string): Promise<DeleteCheck> {
+    const agentProcess = this.agents.get(agentId)
+    if (!agentProcess) {
+      throw new Error(`Agent not found: ${agentId}`)
+    }
+
+    // Archived agents have no worktree and keep their branch
+    const { agent } = agentProcess
+    if (agent.archivedAt || !fs.existsSync(agent.workDir)) {
+      return { dirtyFiles: [], unmergedCommits: 0 }
+    }
+
+    const dirtyFiles = await this.worktreeManager.getUncommittedFiles(agent.workDir)
+
+    // Compare against the base branch, or the source repo's checked out branch for other bases
+    const target = agent.baseRef && await this.worktreeManager.isLocalBranch(agent.sourceRepo, agent.baseRef)
+      ? agent.baseRef
+      : 'HEAD'
+    let unmergedCommits = 0
+    try {
+      unmergedCommits = await this.worktreeManager.countUnmergedCommits(agent.sourceRepo, agent.branch, target)
+    } catch (error) {
+      console.warn(`Failed to count unmerged commits of ${agent.branch}:`, error)
+    }
+
+    return { dirtyFiles, unmergedCommits }
+  }
+
+  // Save the worktree state, uncommitted files included, to refs/aiagent-backup/<id>
+  async backupAgent(agentId: string): Promise<string> {
+    const agentProcess = this.agents.get(agentId)
+    if (!agentProcess) {
+      throw new Error(`Agent not found: ${agentId}`)
+    }
+    if (agentProcess.agent.archivedAt) {
+      throw new Error(`Agent is archived: ${agentId}`)
+    }
+
+    const { agent } = agentProcess
+    const refName = `${BACKUP_REF_PREFIX}${agentId}`
+    await this.worktreeManager.createBackupRef(agent.workDir, refName, `Backup of agent ${agent.name} (${agent.branch})`)
+    console.log(`Saved backup of agent ${agent.name} to ${refName}`)
+    return refName
+  }
+
+  // Run the repo's teardown commands in the worktree, e.g. to stop containers the agent started
+  private async runTeardown(agentProcess: AgentProcess): Promise<void> {
+    const { agent } = agentProcess
+    const commands = getRepoSettings(agent.sourceRepo).teardownCommands || []
+
+    for (const command of commands) {
+      console.log(`Running teardown for agent ${agent.name}: ${command}`)
+      try {
+        const { stdout, stderr } = await execAsync(command, {
+          cwd: agent.workDir,
+          env: this.buildEnv(agentProcess),
+          timeout: TEARDOWN_TIMEOUT_MS,
+        })
+        if (stdout.trim()) console.log(stdout.trim())
+        if (stderr.trim()) console.warn(stderr.trim())
+      } catch (error) {
+        const stderr = (error as { stderr?: string }).stderr?.trim()
+        throw new Error(`Teardown command failed: ${command}${stderr ? `\n${stderr}` : ''}`)
+      }
+    }
+  }
+
+  async deleteAgent(agentId: string, options: DeleteAgentOptions = {}): Promise<void> {
+    const agentProcess = this.agents.get(agentId)
+    if (!agentProcess) {
+      throw new Error(`Agent not found: ${agentId}`)
+    }
+
+    if (!agentProcess.agent.archivedAt) {
+      if (!options.force) {
+        const { dirtyFiles, unmergedCommits } = await this.checkDelete(agentId)
+        if (dirtyFiles.length > 0 || unmergedCommits > 0) {
+          throw new Error(
+            `Agent has ${dirtyFiles.length} uncommitted file(s) and ${unmergedCommits} unmerged commit(s); use force to delete anyway`
+          )
+        }
+      }
+
+      if (options.backup) {
+        await this.backupAgent(agentId)
+      }
+
+      try {
+        await this.runTeardown(agentProcess)
+      } catch (error) {
+        if (!options.force) throw error
+        console.warn('Ignoring failed teardown of forced delete:', error)
+      }
+    }
+
+    // Close all tabs and cancel running jobs
+    const spillStreams = Array.from(agentProcess.tabs.values(), t => t.spillStream)
+      .filter((stream): stream is fs.WriteStream => stream !== null)
+    this.disposeTabs(agentId, agentProcess)
+    this.disposeJobs(agentProcess)
+
+    // Spilled output goes with the agent, archived agents keep theirs until then.
+    // Pending writes finish before the spill files close, so the directory goes only after that.
+    if (this.config.outputSpillDir) {
+      await Promise.all(spillStreams.map(stream => new Promise<void>((resolve) => {
+        if (stream.closed) resolve()
+        else stream.once('close', () => resolve())
+      })))
+      fs.rmSync(path.join(this.config.outputSpillDir, agentId), { recursive: true, force: true })
+    }
+
+    // Remove worktree (archived agents no longer have one)
+    if (!agentProcess.agent.archivedAt) {
+      await this.worktreeManager.removeWorktree(
+        agentProcess.agent.sourceRepo,
+        agentProcess.agent.workDir
+      )
+    }
 
     this.agents.delete(agentId)
 
@@ -442,6 +1976,263 @@ export class AgentManager extends EventEmitter {
     this.emit('agents-updated', this.getAgents())
   }
 
+  // Stop all tabs and remove the worktree, keeping the branch, scrollback and metadata
+  async archiveAgent(agentId: string): Promise<Agent> {
+    const agentProcess = this.agents.get(agentId)
+    if (!agentProcess) {
+      throw new Error(`Agent not found: ${agentId}`)
+    }
+    if (agentProcess.agent.archivedAt) {
+      throw new Error(`Agent is already archived: ${agentId}`)
+    }
+
+    // Commit while the tabs still run, so a failed commit aborts before anything is stopped
+    const { agent } = agentProcess
+    await this.worktreeManager.commitChanges(agent.workDir, 'Auto-commit before archive')
+
+    // Save tabs and their scrollback so restore brings them back
+    this.persistTabs(agentId)
+
+    // Teardown is best effort here: changes are committed to the branch, nothing is lost
+    try {
+      await this.runTeardown(agentProcess)
+    } catch (error) {
+      console.warn('Teardown before archive failed:', error)
+    }
+
+    this.disposeTabs(agentId, agentProcess)
+    this.disposeJobs(agentProcess)
+
+    // Changes written while the tabs stopped; the worktree is kept if they can't be committed
+    await this.worktreeManager.commitChanges(agent.workDir, 'Auto-commit before archive')
+    agentProcess.tabs.clear()
+    await this.worktreeManager.removeWorktree(agent.sourceRepo, agent.workDir)
+
+    agent.archivedAt = Date.now()
+    agent.status = 'stopped'
+    agent.tabs = []
+    this.persistAgent(agent)
+
+    this.emit('agent-status', agentId, 'stopped')
+    this.emit('agents-updated', this.getAgents())
+
+    return agent
+  }
+
+  // Recreate the worktree of an archived agent from its branch
+  async restoreAgent(agentId: string): Promise<Agent> {
+    const agentProcess = this.agents.get(agentId)
+    if (!agentProcess) {
+      throw new Error(`Agent not found: ${agentId}`)
+    }
+    if (!agentProcess.agent.archivedAt) {
+      throw new Error(`Agent is not archived: ${agentId}`)
+    }
+
+    const { agent } = agentProcess
+    agent.workDir = await this.worktreeManager.checkoutWorktree(
+      agent.sourceRepo,
+      agentId,
+      agent.branch
+    )
+    agent.archivedAt = undefined
+    agent.status = 'idle'
+
+    const persisted = getPersistedAgents().find(pa => pa.id === agentId)
+    agentProcess.tabs = this.createRestoredTabs(persisted ?? agent)
+    agent.tabs = Array.from(agentProcess.tabs.values()).map(t => t.info)
+    this.trimRestoredTabs(agentId, agentProcess.tabs)
+
+    this.persistAgent(agent)
+
+    this.emit('agents-updated', this.getAgents())
+    this.startSetup(agentId)
+
+    return agent
+  }
+
+  // Run the repo's setup commands in the background; the outcome is reported through the agent status
+  startSetup(agentId: string): Agent {
+    const agentProcess = this.agents.get(agentId)
+    if (!agentProcess) {
+      throw new Error(`Agent not found: ${agentId}`)
+    }
+    if (agentProcess.agent.archivedAt) {
+      throw new Error(`Agent is archived: ${agentId}`)
+    }
+    if (agentProcess.agent.status === 'setting-up') {
+      throw new Error(`Setup is already running for agent: ${agentId}`)
+    }
+
+    this.runSetup(agentId, agentProcess).catch((error) => {
+      console.error(`Failed to run setup for agent ${agentId}:`, error)
+    })
+    return agentProcess.agent
+  }
+
+  // Run the repo's setup commands in the worktree, streaming their output into the setup tab
+  private async runSetup(agentId: string, agentProcess: AgentProcess): Promise<boolean> {
+    const { agent } = agentProcess
+    const commands = getRepoSettings(agent.sourceRepo).setupCommands || []
+    if (commands.length === 0) {
+      if (agent.status === 'setup-failed') {
+        this.updateAgentStatus(agentId, agentProcess)
+      }
+      return true
+    }
+
+    // Reuse the setup tab of a previous run so all attempts are in one place
+    let tabProcess = Array.from(agentProcess.tabs.values()).find(t => t.info.kind === 'setup')
+    if (!tabProcess) {
+      const tabInfo: TabInfo = { id: uuidv4(), name: SETUP_TAB_NAME, status: 'idle', kind: 'setup' }
+      tabProcess = this.createTabProcess(tabInfo)
+      agentProcess.tabs.set(tabInfo.id, tabProcess)
+      this.emit('tab-created', agentId, tabInfo)
+    }
+    const tabId = tabProcess.info.id
+
+    agent.status = 'setting-up'
+    this.emit('agent-status', agentId, agent.status)
+    this.emit('agents-updated', this.getAgents())
+
+    tabProcess.logStream = this.createLogStream(agent, SETUP_TAB_NAME)
+
+    let failure: string | null = null
+    for (const command of commands) {
+      this.handlePtyData(agentId, tabId, `\x1b[1m$ ${command}\x1b[0m\r\n`)
+      const { exitCode, signal } = await this.runSetupCommand(agentId, agentProcess, tabProcess, command)
+      if (exitCode !== 0 || signal) {
+        failure = `${command} ${signal ? `was killed by signal ${signal}` : `exited with code ${exitCode}`}`
+        break
+      }
+    }
+
+    if (tabProcess.logStream) {
+      tabProcess.logStream.end()
+      tabProcess.logStream = null
+    }
+
+    // The agent may have been deleted, archived or had its setup tab closed meanwhile
+    if (this.agents.get(agentId) !== agentProcess || agent.archivedAt) {
+      return false
+    }
+    if (agentProcess.tabs.get(tabId) !== tabProcess) {
+      agent.status = 'idle'
+      this.updateAgentStatus(agentId, agentProcess)
+      return false
+    }
+
+    this.handlePtyData(agentId, tabId, failure
+      ? `\r\n\x1b[31mSetup failed: ${failure}\x1b[0m\r\n`
+      : '\r\n\x1b[32mSetup completed\x1b[0m\r\n')
+    this.persistTabs(agentId)
+
+    if (failure) {
+      agent.status = 'setup-failed'
+      this.emit('agent-status', agentId, agent.status)
+      this.emit('agents-updated', this.getAgents())
+    } else {
+      agent.status = 'idle'
+      this.updateAgentStatus(agentId, agentProcess)
+      for (const tab of agentProcess.tabs.values()) {
+        this.deliverInput(agentId, agentProcess, tab)
+      }
+    }
+    return !failure
+  }
+
+  private runSetupCommand(
+    agentId: string,
+    agentProcess: AgentProcess,
+    tabProcess: TabProcess,
+    command: string
+  ): Promise<{ exitCode: number; signal?: number }> {
+    const tabId = tabProcess.info.id
+    const shell = process.env.SHELL || '/bin/bash'
+
+    return new Promise((resolve) => {
+      let ptyProcess: pty.IPty
+      try {
+        ptyProcess = pty.spawn(shell, ['-c', command], {
+          name: 'xterm-256color',
+          cols: tabProcess.cols,
+          rows: tabProcess.rows,
+          cwd: agentProcess.agent.workDir,
+          env: this.buildEnv(agentProcess),
+        })
+      } catch (error) {
+        this.handlePtyData(agentId, tabId, `${error instanceof Error ? error.message : error}\r\n`)
+        resolve({ exitCode: 1 })
+        return
+      }
+
+      tabProcess.pty = ptyProcess
+      tabProcess.info.status = 'running'
+      this.emit('tab-status', agentId, tabId, 'running')
+
+      ptyProcess.onData((data) => {
+        this.handlePtyData(agentId, tabId, data)
+      })
+
+      ptyProcess.onExit(({ exitCode, signal }) => {
+        this.flushPendingData(agentId, tabId)
+        if (tabProcess.pty === ptyProcess) {
+          tabProcess.pty = null
+        }
+        tabProcess.info.status = 'stopped'
+        tabProcess.info.exitCode = exitCode
+        tabProcess.info.signal = signal || undefined
+        this.emit('tab-status', agentId, tabId, 'stopped')
+        resolve({ exitCode, signal: signal || undefined })
+      })
+    })
+  }
+
+  // Environment for processes in an agent's worktree: agent env overrides repo env, which overrides the profile's
+  private buildEnv(agentProcess: AgentProcess, profile?: LaunchProfile): NodeJS.ProcessEnv {
+    const { agent } = agentProcess
+    return {
+      ...process.env,
+      ...profile?.env,
+      ...resolveEnv(getRepoSettings(agent.sourceRepo).env, agent.sourceRepo),
+      ...resolveEnv(agentProcess.env, agent.workDir),
+      TERM: 'xterm-256color',
+      COLORTERM: 'truecolor',
+    }
+  }
+
+  // A tab waiting for input outranks a busy one, which outranks one that is merely running
+  private deriveAgentStatus(agentProcess: AgentProcess): Agent['status'] {
+    const statuses = Array.from(agentProcess.tabs.values()).map(t => t.info.status)
+    if (statuses.includes('waiting')) return 'waiting'
+    if (statuses.includes('busy')) return 'busy'
+    if (statuses.includes('running')) return 'running'
+    if (statuses.includes('queued')) return 'queued'
+    return agentProcess.agent.status === 'idle' ? 'idle' : 'stopped'
+  }
+
+  // Derive the agent status from its tabs; setup states stay until the setup finishes or its tab is closed
+  private updateAgentStatus(agentId: string, agentProcess: AgentProcess): void {
+    const { agent } = agentProcess
+    if (agent.status === 'setting-up' || agent.status === 'setup-failed') return
+
+    agent.status = this.deriveAgentStatus(agentProcess)
+    this.emit('agent-status', agentId, agent.status)
+    this.emit('agents-updated', this.getAgents())
+  }
+
+  // Like updateAgentStatus, for frequent changes: only emits agent-status, and only on an actual change
+  private refreshAgentStatus(agentId: string, agentProcess: AgentProcess): void {
+    const { agent } = agentProcess
+    if (agent.status === 'setting-up' || agent.status === 'setup-failed') return
+
+    const status = this.deriveAgentStatus(agentProcess)
+    if (status !== agent.status) {
+      agent.status = status
+      this.emit('agent-status', agentId, status)
+    }
+  }
+
   getAgent(agentId: string): Agent | undefined {
     const agentProcess = this.agents.get(agentId)
     if (!agentProcess) return undefined
@@ -461,37 +2252,207 @@ export class AgentManager extends EventEmitter {
     return this.agents.get(agentId)?.tabs.get(tabId)?.info
   }
 
-  startTab(agentId: string, tabId: string, cols: number = 80, rows: number = 24): pty.IPty {
+  startTab(agentId: string, tabId: string, cols: number = 80, rows: number = 24): pty.IPty | null {
     const agentProcess = this.agents.get(agentId)
     if (!agentProcess) {
       throw new Error(`Agent not found: ${agentId}`)
     }
 
+    if (agentProcess.agent.archivedAt) {
+      throw new Error(`Agent is archived: ${agentId}`)
+    }
+
     const tabProcess = agentProcess.tabs.get(tabId)
     if (!tabProcess) {
       throw new Error(`Tab not found: ${tabId}`)
     }
 
-    if (tabProcess.pty) {
+    // The setup tab only runs setup commands, see runSetup
+    if (tabProcess.pty || tabProcess.info.kind === 'setup') {
       return tabProcess.pty
     }
+    if (tabProcess.info.status === 'queued') {
+      return null
+    }
 
-    const shell = process.env.SHELL || '/bin/bash'
+    // A manual start supersedes any pending automatic restart
+    if (tabProcess.restartTimer) {
+      clearTimeout(tabProcess.restartTimer)
+      tabProcess.restartTimer = null
+      tabProcess.info.nextRestartAt = undefined
+    }
+    tabProcess.restartAttempts = 0
+    tabProcess.cols = cols
+    tabProcess.rows = rows
+
+    // Tabs that are already waiting go first
+    if (this.startQueue.length > 0 || !this.hasStartCapacity(agentId)) {
+      this.enqueueTab(agentId, agentProcess, tabProcess)
+      this.promoteQueuedTabs()
+      return tabProcess.pty
+    }
 
-    const ptyProcess = pty.spawn(shell, [], {
-      name: 'xterm-256color',
-      cols,
-      rows,
-      cwd: agentProcess.agent.workDir,
-      env: {
-        ...process.env,
-        TERM: 'xterm-256color',
-        COLORTERM: 'truecolor',
-      },
+    return this.spawnTab(agentId, agentProcess, tabId, tabProcess)
+  }
+
+  private isRunningTab(tabProcess: TabProcess): boolean {
+    // Setup commands are not started through the queue and don't count
+    return !!tabProcess.pty && tabProcess.info.kind !== 'setup'
+  }
+
+  // Whether one more tab of the agent may run within Config.maxRunningTabs and maxRunningAgents
+  private hasStartCapacity(agentId: string): boolean {
+    const { maxRunningTabs, maxRunningAgents } = this.config
+    let runningTabs = 0
+    let runningAgents = 0
+    let agentRunning = false
+
+    for (const [id, agentProcess] of this.agents) {
+      const count = Array.from(agentProcess.tabs.values()).filter(t => this.isRunningTab(t)).length
+      runningTabs += count
+      if (count > 0) {
+        runningAgents++
+        agentRunning = agentRunning || id === agentId
+      }
+    }
+
+    if (maxRunningTabs && runningTabs >= maxRunningTabs) return false
+    if (maxRunningAgents && !agentRunning && runningAgents >= maxRunningAgents) return false
+    return true
+  }
+
+  private enqueueTab(agentId: string, agentProcess: AgentProcess, tabProcess: TabProcess): void {
+    this.startQueue.push({ agentId, tabId: tabProcess.info.id })
+    this.updateQueuePositions()
+    console.log(`Queued tab ${tabProcess.info.id} of agent ${agentProcess.agent.name} at position ${tabProcess.info.queuePosition}`)
+
+    tabProcess.info.status = 'queued'
+    this.emit('tab-status', agentId, tabProcess.info.id, 'queued')
+    this.refreshAgentStatus(agentId, agentProcess)
+    this.emit('agents-updated', this.getAgents())
+  }
+
+  // Drop a tab from the start queue; its status is left to the caller
+  private removeFromQueue(agentId: string, tabId: string): boolean {
+    const index = this.startQueue.findIndex(e => e.agentId === agentId && e.tabId === tabId)
+    if (index < 0) return false
+
+    this.startQueue.splice(index, 1)
+    const info = this.agents.get(agentId)?.tabs.get(tabId)?.info
+    if (info) {
+      info.queuePosition = undefined
+    }
+    this.updateQueuePositions()
+    return true
+  }
+
+  private updateQueuePositions(): void {
+    this.startQueue.forEach(({ agentId, tabId }, index) => {
+      const info = this.agents.get(agentId)?.tabs.get(tabId)?.info
+      if (info) {
+        info.queuePosition = index + 1
+      }
     })
+  }
+
+  // Start queued tabs in order while there is capacity. A tab that has to wait for a free agent
+  // slot doesn't hold up later tabs of agents that are already running.
+  private promoteQueuedTabs(): void {
+    let promoted = false
+
+    for (const entry of [...this.startQueue]) {
+      const agentProcess = this.agents.get(entry.agentId)
+      const tabProcess = agentProcess?.tabs.get(entry.tabId)
+      if (!agentProcess || !tabProcess) {
+        this.removeFromQueue(entry.agentId, entry.tabId)
+        continue
+      }
+      if (!this.hasStartCapacity(entry.agentId)) continue
+
+      this.removeFromQueue(entry.agentId, entry.tabId)
+      promoted = true
+      try {
+        this.spawnTab(entry.agentId, agentProcess, entry.tabId, tabProcess)
+      } catch (error) {
+        console.error(`Failed to start queued tab ${entry.tabId}:`, error)
+        tabProcess.info.status = 'stopped'
+        this.emit('tab-status', entry.agentId, entry.tabId, 'stopped')
+        this.refreshAgentStatus(entry.agentId, agentProcess)
+      }
+    }
+
+    if (promoted) {
+      this.emit('agents-updated', this.getAgents())
+    }
+  }
+
+  private spawnTab(agentId: string, agentProcess: AgentProcess, tabId: string, tabProcess: TabProcess): pty.IPty {
+    // Resolve launch profile, falling back to the user's shell
+    let profile: LaunchProfile | undefined
+    if (tabProcess.info.profile) {
+      profile = this.getLaunchProfile(tabProcess.info.profile)
+      if (!profile) {
+        console.warn(`Launch profile ${tabProcess.info.profile} no longer exists, starting shell instead`)
+      }
+    }
+
+    const shell = process.env.SHELL || '/bin/bash'
+    const command = profile ? profile.command : shell
+    const args = profile?.args || []
+    const cwd = profile?.cwd
+      ? path.resolve(agentProcess.agent.workDir, profile.cwd)
+      : agentProcess.agent.workDir
+
+    const env = this.buildEnv(agentProcess, profile)
+    let ptyProcess: pty.IPty
+
+    if (this.config.sessionBackend === 'tmux') {
+      // The tmux server outlives this process; only variables that differ from ours go into the session
+      const sessionEnv: Record<string, string> = {}
+      for (const [key, value] of Object.entries(env)) {
+        if (value !== undefined && process.env[key] !== value) {
+          sessionEnv[key] = value
+        }
+      }
+
+      // Started from inside tmux, the client would refuse to attach a nested session
+      const clientEnv: Record<string, string | undefined> = { ...process.env, TERM: 'xterm-256color', COLORTERM: 'truecolor' }
+      delete clientEnv.TMUX
+
+      const sessionName = tmux.getSessionName(agentId, tabId)
+      ptyProcess = pty.spawn('tmux', tmux.getAttachArgs(sessionName, {
+        cwd,
+        cols: tabProcess.cols,
+        rows: tabProcess.rows,
+        env: sessionEnv,
+        command,
+        args,
+      }), {
+        name: 'xterm-256color',
+        cols: tabProcess.cols,
+        rows: tabProcess.rows,
+        cwd,
+        env: clientEnv,
+      })
+      tabProcess.sessionName = sessionName
+    } else {
+      ptyProcess = pty.spawn(command, args, {
+        name: 'xterm-256color',
+        cols: tabProcess.cols,
+        rows: tabProcess.rows,
+        cwd,
+        env,
+      })
+    }
 
     tabProcess.pty = ptyProcess
+    tabProcess.startedAt = Date.now()
     tabProcess.info.status = 'running'
+    tabProcess.promptPatterns = compilePromptPatterns(profile?.promptPatterns ?? this.config.promptPatterns ?? [])
+    this.clearActivity(tabProcess)
+    tabProcess.ruleTail = ''
+    tabProcess.panePid = null
+    tabProcess.bracketedPaste = false
 
     // Create log stream when PTY starts
     tabProcess.logStream = this.createLogStream(agentProcess.agent, tabProcess.info.name)
@@ -501,7 +2462,19 @@ export class AgentManager extends EventEmitter {
       this.handlePtyData(agentId, tabId, data)
     })
 
-    ptyProcess.onExit(() => {
+    ptyProcess.onExit((exit) => {
+      // The tab may already run a newer process if it was stopped and started again
+      if (tabProcess.pty && tabProcess.pty !== ptyProcess) return
+
+      // The tmux client exits with 0 whatever the session's process did; its dead pane has the real status
+      let { exitCode, signal } = exit
+      const paneExit = tabProcess.sessionName ? tmux.getPaneExit(tabProcess.sessionName) : null
+      if (paneExit && tabProcess.sessionName) {
+        ({ exitCode, signal } = paneExit)
+        tmux.killSession(tabProcess.sessionName)
+        tabProcess.sessionName = null
+      }
+
       // Flush any pending data
       this.flushPendingData(agentId, tabId)
 
@@ -510,51 +2483,128 @@ export class AgentManager extends EventEmitter {
         tabProcess.logStream = null
       }
 
-      // Save output buffer for recovery (first tab only for now)
-      const firstTabId = agentProcess.tabs.keys().next().value
-      if (tabId === firstTabId) {
-        const fullOutput = this.getOutputHistory(agentId, tabId)
-        // Only save last 50KB for persistence
-        const persistBuffer = fullOutput.slice(-50000)
-        updatePersistedAgentBuffer(agentId, persistBuffer)
-      }
-
       tabProcess.pty = null
+      this.clearActivity(tabProcess)
       tabProcess.info.status = 'stopped'
+      tabProcess.info.exitCode = exitCode
+      tabProcess.info.signal = signal || undefined
       this.emit('tab-status', agentId, tabId, 'stopped')
+
+      // Save scrollback for recovery, unless the tab was closed or its agent archived or deleted
+      if (this.agents.get(agentId)?.tabs.get(tabId) === tabProcess) {
+        this.persistTabs(agentId)
+        this.refreshAgentStatus(agentId, agentProcess)
+      }
+
+      if (!this.stoppedPtys.has(ptyProcess)) {
+        this.scheduleRestart(agentId, tabId, tabProcess, exitCode !== 0 || !!signal)
+      }
+      this.promoteQueuedTabs()
+      this.emit('agents-updated', this.getAgents())
     })
 
     this.emit('tab-status', agentId, tabId, 'running')
-
-    // Update agent status
-    agentProcess.agent.status = 'running'
-    this.emit('agent-status', agentId, 'running')
+    this.refreshAgentStatus(agentId, agentProcess)
 
     return ptyProcess
   }
 
+  // Restart a tab whose process exited on its own, according to its restart policy
+  private scheduleRestart(agentId: string, tabId: string, tabProcess: TabProcess, failed: boolean): void {
+    const policy = tabProcess.info.restartPolicy
+    if (!policy || policy.mode === 'never') return
+    if (policy.mode === 'on-failure' && !failed) return
+
+    if (Date.now() - tabProcess.startedAt > RESTART_RESET_MS) {
+      tabProcess.restartAttempts = 0
+    }
+
+    const maxRetries = policy.maxRetries ?? DEFAULT_MAX_RETRIES
+    if (tabProcess.restartAttempts >= maxRetries) {
+      console.log(`Tab ${tabId} of agent ${agentId} exited ${maxRetries} time(s) in a row, not restarting`)
+      return
+    }
+
+    const backoff = policy.backoffMs ?? DEFAULT_BACKOFF_MS
+    const delay = Math.min(backoff * 2 ** tabProcess.restartAttempts, MAX_BACKOFF_MS)
+    tabProcess.restartAttempts++
+    tabProcess.info.nextRestartAt = Date.now() + delay
+
+    tabProcess.restartTimer = setTimeout(() => {
+      tabProcess.restartTimer = null
+      tabProcess.info.nextRestartAt = undefined
+
+      // Skip if the tab was closed or started manually in the meantime
+      const agentProcess = this.agents.get(agentId)
+      if (!agentProcess || agentProcess.tabs.get(tabId) !== tabProcess || tabProcess.pty) return
+
+      tabProcess.info.restartCount = (tabProcess.info.restartCount || 0) + 1
+      console.log(`Restarting tab ${tabId} of agent ${agentId} (restart #${tabProcess.info.restartCount})`)
+
+      // The slot was freed when the tab exited and may have gone to a queued tab
+      if (this.startQueue.length > 0 || !this.hasStartCapacity(agentId)) {
+        this.enqueueTab(agentId, agentProcess, tabProcess)
+        return
+      }
+      try {
+        this.spawnTab(agentId, agentProcess, tabId, tabProcess)
+      } catch (error) {
+        console.error('Failed to restart tab:', error)
+      }
+      this.emit('agents-updated', this.getAgents())
+    }, delay)
+  }
+
+  setRestartPolicy(agentId: string, tabId: string, policy: RestartPolicy): TabInfo {
+    const tabProcess = this.agents.get(agentId)?.tabs.get(tabId)
+    if (!tabProcess) {
+      throw new Error(`Tab not found: ${tabId}`)
+    }
+    if (!['never', 'on-failure', 'always'].includes(policy.mode)) {
+      throw new Error(`Invalid restart policy: ${policy.mode}`)
+    }
+
+    tabProcess.info.restartPolicy = policy
+    tabProcess.restartAttempts = 0
+    if (policy.mode === 'never' && tabProcess.restartTimer) {
+      clearTimeout(tabProcess.restartTimer)
+      tabProcess.restartTimer = null
+      tabProcess.info.nextRestartAt = undefined
+    }
+    this.persistTabs(agentId)
+
+    this.emit('agents-updated', this.getAgents())
+    return tabProcess.info
+  }
+
   stopTab(agentId: string, tabId: string): void {
     const agentProcess = this.agents.get(agentId)
     if (!agentProcess) return
 
     const tabProcess = agentProcess.tabs.get(tabId)
-    if (!tabProcess || !tabProcess.pty) return
+    if (!tabProcess) return
+
+    // Stopping a queued tab cancels its start
+    if (this.removeFromQueue(agentId, tabId)) {
+      tabProcess.info.status = 'stopped'
+      this.emit('tab-status', agentId, tabId, 'stopped')
+      this.refreshAgentStatus(agentId, agentProcess)
+      this.emit('agents-updated', this.getAgents())
+      return
+    }
+
+    if (!tabProcess.pty && !tabProcess.restartTimer) return
 
     // Flush pending data before stopping
     this.flushPendingData(agentId, tabId)
 
-    tabProcess.pty.kill()
+    this.killTabPty(tabProcess)
     tabProcess.pty = null
     tabProcess.info.status = 'stopped'
 
     this.emit('tab-status', agentId, tabId, 'stopped')
-
-    // Check if any tabs are still running
-    const anyRunning = Array.from(agentProcess.tabs.values()).some(t => t.info.status === 'running')
-    if (!anyRunning) {
-      agentProcess.agent.status = 'stopped'
-      this.emit('agent-status', agentId, 'stopped')
-    }
+    this.refreshAgentStatus(agentId, agentProcess)
+    this.promoteQueuedTabs()
   }
 
   getPty(agentId: string, tabId: string): pty.IPty | null {
@@ -562,9 +2612,14 @@ export class AgentManager extends EventEmitter {
   }
 
   resizePty(agentId: string, tabId: string, cols: number, rows: number): void {
-    const ptyProcess = this.getPty(agentId, tabId)
-    if (ptyProcess) {
-      ptyProcess.resize(cols, rows)
+    const tabProcess = this.agents.get(agentId)?.tabs.get(tabId)
+    if (!tabProcess) return
+
+    // Remember the size for automatic restarts
+    tabProcess.cols = cols
+    tabProcess.rows = rows
+    if (tabProcess.pty) {
+      tabProcess.pty.resize(cols, rows)
     }
   }
 
@@ -594,13 +2649,18 @@ export class AgentManager extends EventEmitter {
     return this.worktreeManager.getStatus(agentProcess.agent.workDir)
   }
 
-  async getGitDiff(agentId: string): Promise<string> {
+  async getGitDiff(agentId: string, sinceBase: boolean = false): Promise<string> {
     const agentProcess = this.agents.get(agentId)
     if (!agentProcess) {
       throw new Error(`Agent not found: ${agentId}`)
     }
 
-    return this.worktreeManager.getDiff(agentProcess.agent.workDir)
+    const { workDir, baseCommit } = agentProcess.agent
+    return this.worktreeManager.getDiff(workDir, sinceBase ? baseCommit : undefined)
+  }
+
+  async listBranches(sourceRepo: string): Promise<BranchListResponse> {
+    return this.worktreeManager.listBranches(sourceRepo)
   }
 
   async tryLocalMerge(
@@ -612,6 +2672,12 @@ export class AgentManager extends EventEmitter {
       throw new Error(`Agent not found: ${agentId}`)
     }
 
+    // Merge back into the branch the agent started from when it is a local branch
+    const { sourceRepo, baseRef } = agentProcess.agent
+    if (!targetBranch && baseRef && await this.worktreeManager.isLocalBranch(sourceRepo, baseRef)) {
+      targetBranch = baseRef
+    }
+
     return this.worktreeManager.tryLocalMerge(agentProcess.agent.workDir, targetBranch)
   }
 
@@ -627,6 +2693,11 @@ export class AgentManager extends EventEmitter {
   shutdown(): void {
     console.log(`Stopping ${this.agents.size} agent(s)...`)
 
+    if (this.resourceTimer) {
+      clearInterval(this.resourceTimer)
+      this.resourceTimer = null
+    }
+
     // Clear all flush timers
     for (const timer of this.flushTimers.values()) {
       clearTimeout(timer)
@@ -634,26 +2705,21 @@ export class AgentManager extends EventEmitter {
     this.flushTimers.clear()
 
     for (const [agentId, agentProcess] of this.agents) {
-      for (const [tabId, tabProcess] of agentProcess.tabs) {
-        // Save output buffer for first tab
-        const firstTabId = agentProcess.tabs.keys().next().value
-        if (tabId === firstTabId) {
-          const fullOutput = this.getOutputHistory(agentId, tabId)
-          const persistBuffer = fullOutput.slice(-50000)
-          if (persistBuffer) {
-            updatePersistedAgentBuffer(agentId, persistBuffer)
-          }
-        }
+      this.persistTabs(agentId)
+      this.disposeJobs(agentProcess)
 
+      for (const [tabId, tabProcess] of agentProcess.tabs) {
         if (tabProcess.logStream) {
           tabProcess.logStream.end()
         }
+        this.releaseOutputBuffer(tabProcess)
 
+        // tmux sessions keep running and are picked up again on the next start
         if (tabProcess.pty) {
-          console.log(`Stopping tab ${tabId} of agent ${agentId}`)
-          tabProcess.pty.kill()
-          tabProcess.pty = null
+          console.log(`${tabProcess.sessionName ? 'Detaching' : 'Stopping'} tab ${tabId} of agent ${agentId}`)
         }
+        this.killTabPty(tabProcess, true)
+        tabProcess.pty = null
       }
     }
   }
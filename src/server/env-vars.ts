@@ -0,0 +1,104 @@
+import * as fs from 'fs'
+import * as path from 'path'
+import type { EnvSettings, EnvVar } from '../shared/types.js'
+
+// Placeholder sent to clients instead of secret values; sending it back keeps the stored value
+export const MASKED_VALUE = '********'
+
+const ENV_NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/
+
+/**
+ * Parse the contents of a .env file.
+ * Supports comments, `export` prefixes and single or double quoted values.
+ */
+export function parseDotEnv(content: string): Record<string, string> {
+  const result: Record<string, string> = {}
+
+  for (const rawLine of content.split(/\r?\n/)) {
+    const line = rawLine.trim()
+    if (!line || line.startsWith('#')) continue
+
+    const match = line.match(/^(?:export\s+)?([A-Za-z_][A-Za-z0-9_]*)\s*=\s*(.*)$/)
+    if (!match) continue
+
+    const [, name, rest] = match
+    let value = rest
+    if (value.startsWith('"') && value.lastIndexOf('"') > 0) {
+      value = value
+        .slice(1, value.lastIndexOf('"'))
+        .replace(/\\n/g, '\n')
+        .replace(/\\"/g, '"')
+    } else if (value.startsWith("'") && value.lastIndexOf("'") > 0) {
+      value = value.slice(1, value.lastIndexOf("'"))
+    } else {
+      // Strip trailing inline comments from unquoted values
+      value = value.replace(/\s+#.*$/, '').trim()
+    }
+    result[name] = value
+  }
+
+  return result
+}
+
+/**
+ * Resolve env settings into plain variables.
+ * A relative envFile is resolved against baseDir; a missing file is skipped with a warning.
+ */
+export function resolveEnv(settings: EnvSettings | undefined, baseDir: string): Record<string, string> {
+  const result: Record<string, string> = {}
+  if (!settings) return result
+
+  if (settings.envFile) {
+    const envPath = path.resolve(baseDir, settings.envFile)
+    try {
+      Object.assign(result, parseDotEnv(fs.readFileSync(envPath, 'utf-8')))
+    } catch (error) {
+      console.warn(`Failed to read env file ${envPath}:`, error)
+    }
+  }
+
+  for (const v of settings.vars || []) {
+    result[v.name] = v.value
+  }
+
+  return result
+}
+
+// Replace secret values before sending settings to clients
+export function maskEnv(settings: EnvSettings | undefined): EnvSettings {
+  return {
+    envFile: settings?.envFile,
+    vars: (settings?.vars || []).map((v) => (v.secret ? { ...v, value: MASKED_VALUE } : v)),
+  }
+}
+
+/**
+ * Validate env settings received from a client.
+ * Secret values that come back masked are replaced with the currently stored value.
+ */
+export function mergeEnvUpdate(current: EnvSettings | undefined, update: EnvSettings): EnvSettings {
+  const seen = new Set<string>()
+  const vars: EnvVar[] = []
+
+  for (const v of update.vars || []) {
+    const name = typeof v.name === 'string' ? v.name.trim() : ''
+    if (!ENV_NAME_PATTERN.test(name)) {
+      throw new Error(`Invalid environment variable name: ${name || '(empty)'}`)
+    }
+    if (seen.has(name)) {
+      throw new Error(`Duplicate environment variable: ${name}`)
+    }
+    seen.add(name)
+
+    let value = typeof v.value === 'string' ? v.value : ''
+    if (v.secret && value === MASKED_VALUE) {
+      value = current?.vars?.find((c) => c.name === name)?.value ?? ''
+    }
+    vars.push({ name, value, secret: v.secret || undefined })
+  }
+
+  return {
+    vars,
+    envFile: update.envFile?.trim() || undefined,
+  }
+}
@@ -1,13 +1,29 @@
-import { exec } from 'child_process'
+import { exec, execFile } from 'child_process'
 import { promisify } from 'util'
 import * as fs from 'fs/promises'
 import * as path from 'path'
+import * as os from 'os'
 
 const execAsync = promisify(exec)
+const execFileAsync = promisify(execFile)
 
 export interface WorktreeInfo {
   worktreePath: string
   branch: string
+  baseRef: string
+  baseCommit: string
+}
+
+export interface BranchList {
+  branches: string[]
+  current: string
+}
+
+export interface WorktreeEntry {
+  path: string
+  head: string
+  branch?: string // Unset for a detached HEAD
+  main: boolean // The repository's main worktree
 }
 
 export interface MergeResult {
@@ -30,12 +46,154 @@ export class GitWorktreeManager {
   }
 
   /**
-   * Create a new worktree from a source repository
+   * List local branches of a repository along with the currently checked out one
+   */
+  async listBranches(sourceRepo: string): Promise<BranchList> {
+    const { stdout } = await execAsync(
+      'git for-each-ref --format="%(refname:short)" refs/heads',
+      { cwd: sourceRepo }
+    )
+    const { stdout: current } = await execAsync('git branch --show-current', {
+      cwd: sourceRepo,
+    })
+    return {
+      branches: stdout.split('\n').map((b) => b.trim()).filter(Boolean),
+      current: current.trim(),
+    }
+  }
+
+  /**
+   * List remote-tracking branches as <remote>/<branch>
+   */
+  async listRemoteBranches(sourceRepo: string): Promise<string[]> {
+    const { stdout } = await execAsync(
+      'git for-each-ref --format="%(refname)" refs/remotes',
+      { cwd: sourceRepo }
+    )
+    return stdout
+      .split('\n')
+      .map((ref) => ref.trim().replace(/^refs\/remotes\//, ''))
+      .filter((ref) => ref && !ref.endsWith('/HEAD'))
+  }
+
+  /**
+   * Fetch all remotes so newly pushed branches show up
+   */
+  async fetch(sourceRepo: string): Promise<void> {
+    await execAsync('git fetch --all --prune', { cwd: sourceRepo })
+  }
+
+  /**
+   * List worktrees of a repository from `git worktree list --porcelain`
+   */
+  async listWorktrees(sourceRepo: string): Promise<WorktreeEntry[]> {
+    const { stdout } = await execAsync('git worktree list --porcelain', {
+      cwd: sourceRepo,
+    })
+
+    const entries: WorktreeEntry[] = []
+    let current: WorktreeEntry | null = null
+    for (const line of stdout.split('\n')) {
+      if (line.startsWith('worktree ')) {
+        current = {
+          path: line.slice('worktree '.length),
+          head: '',
+          main: entries.length === 0,
+        }
+        entries.push(current)
+      } else if (current && line.startsWith('HEAD ')) {
+        current.head = line.slice('HEAD '.length)
+      } else if (current && line.startsWith('branch ')) {
+        current.branch = line.slice('branch '.length).replace(/^refs\/heads\//, '')
+      }
+    }
+    return entries
+  }
+
+  /**
+   * Guess what an existing branch started from: the source repo's current branch
+   * and its merge base with the branch
+   */
+  async findBase(
+    sourceRepo: string,
+    branchName: string
+  ): Promise<{ baseRef: string; baseCommit: string } | undefined> {
+    try {
+      const { stdout: current } = await execAsync('git branch --show-current', {
+        cwd: sourceRepo,
+      })
+      const baseRef = current.trim()
+      if (!baseRef || baseRef === branchName) return undefined
+
+      const { stdout: mergeBase } = await execFileAsync(
+        'git',
+        ['merge-base', baseRef, branchName],
+        { cwd: sourceRepo }
+      )
+      return { baseRef, baseCommit: mergeBase.trim() }
+    } catch {
+      return undefined
+    }
+  }
+
+  /**
+   * Check whether a ref is a local branch of the repository
+   */
+  async isLocalBranch(sourceRepo: string, ref: string): Promise<boolean> {
+    try {
+      await execFileAsync('git', ['show-ref', '--verify', '--quiet', `refs/heads/${ref}`], {
+        cwd: sourceRepo,
+      })
+      return true
+    } catch {
+      return false
+    }
+  }
+
+  /**
+   * Validate a branch name against git's ref naming rules
+   */
+  async validateBranchName(branchName: string): Promise<void> {
+    try {
+      await execFileAsync('git', ['check-ref-format', '--branch', branchName])
+    } catch {
+      throw new Error(`Invalid branch name: ${branchName}`)
+    }
+  }
+
+  /**
+   * Rename a branch checked out in a worktree
+   */
+  async renameBranch(worktreePath: string, oldName: string, newName: string): Promise<void> {
+    await this.validateBranchName(newName)
+    await execFileAsync('git', ['branch', '-m', oldName, newName], {
+      cwd: worktreePath,
+    })
+  }
+
+  /**
+   * Resolve a branch, tag or commit to a commit hash
+   */
+  async resolveCommit(sourceRepo: string, ref: string): Promise<string> {
+    try {
+      const { stdout } = await execFileAsync('git', ['rev-parse', '--verify', `${ref}^{commit}`], {
+        cwd: sourceRepo,
+      })
+      return stdout.trim()
+    } catch {
+      throw new Error(`Base ref not found: ${ref}`)
+    }
+  }
+
+  /**
+   * Create a new worktree on a new branch from a source repository
+   * The branch forks from baseRef, or from the source repo's HEAD when omitted
    */
   async createWorktree(
     sourceRepo: string,
     agentId: string,
-    branchName: string
+    branchName: string,
+    baseRef?: string
   ): Promise<WorktreeInfo> {
     await this.ensureBaseDir()
 
@@ -59,34 +217,125 @@ export class GitWorktreeManager {
         : path.dirname(absoluteGitDir)
     )
 
-    // Check if branch already exists
-    try {
-      await execAsync(`git show-ref --verify --quiet refs/heads/${branchName}`, {
-        cwd: sourceRepo,
-      })
-      // Branch exists, create worktree without -b flag
-      await execAsync(`git worktree add "${worktreePath}" "${branchName}"`, {
-        cwd: sourceRepo,
-      })
-    } catch {
-      // Branch doesn't exist, create new branch
-      await execAsync(`git worktree add -b "${branchName}" "${worktreePath}"`, {
+    // Default to whatever the source repo has checked out
+    let resolvedBaseRef = baseRef
+    if (!resolvedBaseRef) {
+      const { stdout: current } = await execAsync('git branch --show-current', {
         cwd: sourceRepo,
       })
+      resolvedBaseRef = current.trim() || 'HEAD'
     }
+    const baseCommit = await this.resolveCommit(sourceRepo, resolvedBaseRef)
+
+    // Always fork a new branch; existing branches are adopted through import instead
+    await execFileAsync('git', ['worktree', 'add', '-b', branchName, worktreePath, baseCommit], {
+      cwd: sourceRepo,
+    })
 
     return {
       worktreePath,
       branch: branchName,
+      baseRef: resolvedBaseRef,
+      baseCommit,
     }
   }
 
   /**
-   * Remove a worktree
+   * Add a worktree for an existing branch, without creating a new one
+   * A branch that only exists on one remote is checked out as a tracking branch
    */
-  async removeWorktree(sourceRepo: string, agentId: string): Promise<void> {
+  async checkoutWorktree(
+    sourceRepo: string,
+    agentId: string,
+    branchName: string
+  ): Promise<string> {
+    await this.ensureBaseDir()
+
     const worktreePath = path.join(this.baseWorkDir, agentId)
+    await execFileAsync('git', ['worktree', 'add', worktreePath, branchName], {
+      cwd: sourceRepo,
+    })
+    return worktreePath
+  }
 
+  /**
+   * Commit any uncommitted changes in a worktree so they survive on the branch
+   */
+  async commitPendingChanges(worktreePath: string, message: string): Promise<void> {
+    try {
+      await this.commitChanges(worktreePath, message)
+    } catch {
+      // Ignore commit errors (might be nothing to commit)
+    }
+  }
+
+  /**
+   * Commit any uncommitted changes in a worktree, throwing if the commit fails.
+   * Hooks are skipped so a failing pre-commit hook can't block saving the work.
+   */
+  async commitChanges(worktreePath: string, message: string): Promise<void> {
+    const { stdout: status } = await execAsync('git status --porcelain', {
+      cwd: worktreePath,
+    })
+    if (!status.trim()) return
+
+    try {
+      await execAsync('git add -A', { cwd: worktreePath })
+      await execAsync(`git commit --no-verify -m "${message.replace(/"/g, '\\"')}"`, { cwd: worktreePath })
+    } catch (error) {
+      const stderr = (error as { stderr?: string }).stderr?.trim()
+      throw new Error(`Failed to commit pending changes${stderr ? `: ${stderr}` : ''}`)
+    }
+  }
+
+  /**
+   * List uncommitted changes in a worktree, one `git status --porcelain` line per file
+   */
+  async getUncommittedFiles(worktreePath: string): Promise<string[]> {
+    const { stdout } = await execAsync('git status --porcelain', {
+      cwd: worktreePath,
+    })
+    return stdout.split('\n').filter(Boolean)
+  }
+
+  /**
+   * Count commits on a branch that are not contained in the target ref
+   */
+  async countUnmergedCommits(sourceRepo: string, branch: string, target: string): Promise<number> {
+    const { stdout } = await execFileAsync('git', ['rev-list', '--count', `${target}..${branch}`], {
+      cwd: sourceRepo,
+    })
+    return parseInt(stdout.trim(), 10) || 0
+  }
+
+  /**
+   * Save the worktree state, including uncommitted and untracked files, as a commit under refName.
+   * Uses a temporary index so neither the branch nor the real index is touched.
+   */
+  async createBackupRef(worktreePath: string, refName: string, message: string): Promise<string> {
+    const indexFile = path.join(os.tmpdir(), `aiagent-backup-${process.pid}-${Date.now()}.index`)
+    const env = { ...process.env, GIT_INDEX_FILE: indexFile }
+
+    try {
+      await execAsync('git read-tree HEAD', { cwd: worktreePath, env })
+      await execAsync('git add -A', { cwd: worktreePath, env })
+      const { stdout: tree } = await execAsync('git write-tree', { cwd: worktreePath, env })
+      const { stdout: commit } = await execFileAsync(
+        'git',
+        ['commit-tree', tree.trim(), '-p', 'HEAD', '-m', message],
+        { cwd: worktreePath }
+      )
+      await execFileAsync('git', ['update-ref', refName, commit.trim()], { cwd: worktreePath })
+      return commit.trim()
+    } finally {
+      await fs.rm(indexFile, { force: true })
+    }
+  }
+
+  /**
+   * Remove a worktree
+   */
+  async removeWorktree(sourceRepo: string, worktreePath: string): Promise<void> {
     try {
       // Force remove worktree
       await execAsync(`git worktree remove --force "${worktreePath}"`, {
@@ -118,7 +367,7 @@ export class GitWorktreeManager {
     })
     const branch = branchName.trim()
 
-    await execAsync(`git push -u origin "${branch}"`, {
+    await execFileAsync('git', ['push', '-u', 'origin', branch], {
       cwd: worktreePath,
     })
 
@@ -144,10 +393,12 @@ export class GitWorktreeManager {
 
   /**
    * Get diff of a worktree
+   * With baseCommit, includes committed changes since the agent started
    */
-  async getDiff(worktreePath: string): Promise<string> {
-    const { stdout } = await execAsync('git diff', {
+  async getDiff(worktreePath: string, baseCommit?: string): Promise<string> {
+    const { stdout } = await execFileAsync('git', baseCommit ? ['diff', baseCommit] : ['diff'], {
       cwd: worktreePath,
+      maxBuffer: 10 * 1024 * 1024,
     })
     return stdout
   }
@@ -220,17 +471,7 @@ export class GitWorktreeManager {
     }
 
     // First, commit any uncommitted changes in the worktree
-    try {
-      const { stdout: status } = await execAsync('git status --porcelain', {
-        cwd: worktreePath,
-      })
-      if (status.trim()) {
-        await execAsync('git add -A', { cwd: worktreePath })
-        await execAsync('git commit -m "Auto-commit before merge"', { cwd: worktreePath })
-      }
-    } catch {
-      // Ignore commit errors (might be nothing to commit)
-    }
+    await this.commitPendingChanges(worktreePath, 'Auto-commit before merge')
 
     // Switch to target branch in source repo
     const currentBranchBackup = await execAsync('git branch --show-current', {
@@ -240,11 +481,11 @@ export class GitWorktreeManager {
 
     try {
       // Checkout target branch
-      await execAsync(`git checkout "${targetBranch}"`, { cwd: sourceRepoPath })
+      await execFileAsync('git', ['checkout', targetBranch], { cwd: sourceRepoPath })
 
       // Try to merge
       try {
-        await execAsync(`git merge "${branch}" --no-edit`, { cwd: sourceRepoPath })
+        await execFileAsync('git', ['merge', branch, '--no-edit'], { cwd: sourceRepoPath })
 
         return {
           success: true,
@@ -265,7 +506,7 @@ export class GitWorktreeManager {
 
         // Restore original branch
         if (originalBranch) {
-          await execAsync(`git checkout "${originalBranch}"`, { cwd: sourceRepoPath })
+          await execFileAsync('git', ['checkout', originalBranch], { cwd: sourceRepoPath })
         }
 
         return {
@@ -280,7 +521,7 @@ export class GitWorktreeManager {
       // Restore original branch on any error
       if (originalBranch) {
         try {
-          await execAsync(`git checkout "${originalBranch}"`, { cwd: sourceRepoPath })
+          await execFileAsync('git', ['checkout', originalBranch], { cwd: sourceRepoPath })
         } catch {
           // Ignore
         }
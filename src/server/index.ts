@@ -6,8 +6,35 @@ import { fileURLToPath } from 'url'
 import { AgentManager } from './agent-manager.js'
 import { WSHandler } from './ws-handler.js'
 import { loadConfig } from '../shared/config.js'
-import { addRecentRepo, getRecentRepos, getTerminalSettings, updateTerminalSettings } from './local-config.js'
-import type { CreateAgentRequest } from '../shared/types.js'
+import {
+  addRecentRepo,
+  getRecentRepos,
+  getTerminalSettings,
+  updateTerminalSettings,
+  getRepoSettings,
+  updateRepoSettings,
+  getSnippets,
+  addSnippet,
+  updateSnippet,
+  deleteSnippet,
+  type RepoSettings,
+} from './local-config.js'
+import { maskEnv, mergeEnvUpdate } from './env-vars.js'
+import type {
+  CreateAgentRequest,
+  ImportAgentRequest,
+  BatchCreateAgentsRequest,
+  UpdateAgentRequest,
+  EnvSettings,
+  DeleteAgentOptions,
+  TriggerRule,
+  Snippet,
+  ExpectStep,
+  ExpectSequenceRequest,
+  TabInfo,
+  RestartPolicy,
+  CreateJobRequest,
+} from '../shared/types.js'
 
 const __dirname = path.dirname(fileURLToPath(import.meta.url))
 const config = loadConfig()
@@ -45,12 +72,18 @@ app.get('/api/agents/:id', (req, res) => {
 // Create agent
 app.post('/api/agents', async (req, res) => {
   try {
-    const { name, sourceRepo } = req.body as CreateAgentRequest
+    const { name, sourceRepo, profile, baseRef, branch } = req.body as CreateAgentRequest
     if (!name || !sourceRepo) {
       return res.status(400).json({ error: 'name and sourceRepo are required' })
     }
 
-    const agent = await agentManager.createAgent(name, sourceRepo)
+    const agent = await agentManager.createAgent(
+      name,
+      sourceRepo,
+      profile,
+      baseRef || undefined,
+      branch?.trim() || undefined
+    )
 
     // Save to recent repos
     addRecentRepo(sourceRepo)
@@ -64,10 +97,474 @@ app.post('/api/agents', async (req, res) => {
   }
 })
 
-// Delete agent
+// Create several agents from a task list or a count
+app.post('/api/agents/batch', async (req, res) => {
+  try {
+    const request = req.body as BatchCreateAgentsRequest
+    if (!request.sourceRepo) {
+      return res.status(400).json({ error: 'sourceRepo is required' })
+    }
+
+    const result = await agentManager.createAgents(request)
+    if (result.agents.length === 0) {
+      return res.status(500).json({ error: result.errors[0]?.error || 'Failed to create agents', ...result })
+    }
+
+    addRecentRepo(request.sourceRepo)
+    res.status(201).json(result)
+  } catch (error) {
+    console.error('Failed to create agents:', error)
+    res.status(500).json({
+      error: error instanceof Error ? error.message : 'Failed to create agents',
+    })
+  }
+})
+
+// Adopt an existing branch or worktree as an agent
+app.post('/api/agents/import', async (req, res) => {
+  try {
+    const { name, sourceRepo, branch, worktreePath, profile } = req.body as ImportAgentRequest
+    if (!name || !sourceRepo) {
+      return res.status(400).json({ error: 'name and sourceRepo are required' })
+    }
+    if (!branch === !worktreePath) {
+      return res.status(400).json({ error: 'exactly one of branch or worktreePath is required' })
+    }
+
+    const agent = await agentManager.importAgent({ name, sourceRepo, branch, worktreePath, profile })
+
+    addRecentRepo(sourceRepo)
+
+    res.status(201).json(agent)
+  } catch (error) {
+    console.error('Failed to import agent:', error)
+    res.status(500).json({
+      error: error instanceof Error ? error.message : 'Failed to import agent',
+    })
+  }
+})
+
+// Update agent metadata
+app.patch('/api/agents/:id', async (req, res) => {
+  if (!agentManager.getAgent(req.params.id)) {
+    return res.status(404).json({ error: 'Agent not found' })
+  }
+
+  try {
+    const { name, description, branch } = req.body as UpdateAgentRequest
+    if (name !== undefined && !name.trim()) {
+      return res.status(400).json({ error: 'name cannot be empty' })
+    }
+
+    const agent = await agentManager.updateAgent(req.params.id, {
+      name: name?.trim(),
+      description,
+      branch: branch?.trim(),
+    })
+    res.json(agent)
+  } catch (error) {
+    console.error('Failed to update agent:', error)
+    res.status(500).json({
+      error: error instanceof Error ? error.message : 'Failed to update agent',
+    })
+  }
+})
+
+// Agent environment variables (secret values are masked)
+app.get('/api/agents/:id/env', (req, res) => {
+  if (!agentManager.getAgent(req.params.id)) {
+    return res.status(404).json({ error: 'Agent not found' })
+  }
+  res.json(agentManager.getAgentEnv(req.params.id))
+})
+
+app.put('/api/agents/:id/env', (req, res) => {
+  if (!agentManager.getAgent(req.params.id)) {
+    return res.status(404).json({ error: 'Agent not found' })
+  }
+
+  try {
+    res.json(agentManager.updateAgentEnv(req.params.id, req.body as EnvSettings))
+  } catch (error) {
+    res.status(500).json({
+      error: error instanceof Error ? error.message : 'Failed to update environment',
+    })
+  }
+})
+
+// Task queue: pending tasks are typed into the agent's first tab one by one when it is idle
+app.get('/api/agents/:id/tasks', (req, res) => {
+  if (!agentManager.getAgent(req.params.id)) {
+    return res.status(404).json({ error: 'Agent not found' })
+  }
+  res.json(agentManager.getTasks(req.params.id))
+})
+
+app.post('/api/agents/:id/tasks', (req, res) => {
+  if (!agentManager.getAgent(req.params.id)) {
+    return res.status(404).json({ error: 'Agent not found' })
+  }
+
+  const { text } = req.body as { text?: string }
+  if (typeof text !== 'string' || !text.trim()) {
+    return res.status(400).json({ error: 'text is required' })
+  }
+
+  try {
+    res.status(201).json(agentManager.addTask(req.params.id, text))
+  } catch (error) {
+    res.status(500).json({
+      error: error instanceof Error ? error.message : 'Failed to add task',
+    })
+  }
+})
+
+// Reorder pending tasks, body is { taskIds } in the new order
+app.put('/api/agents/:id/tasks/order', (req, res) => {
+  if (!agentManager.getAgent(req.params.id)) {
+    return res.status(404).json({ error: 'Agent not found' })
+  }
+
+  const { taskIds } = req.body as { taskIds?: string[] }
+  if (!Array.isArray(taskIds)) {
+    return res.status(400).json({ error: 'taskIds must be an array' })
+  }
+
+  try {
+    res.json(agentManager.reorderTasks(req.params.id, taskIds))
+  } catch (error) {
+    res.status(500).json({
+      error: error instanceof Error ? error.message : 'Failed to reorder tasks',
+    })
+  }
+})
+
+app.delete('/api/agents/:id/tasks/:taskId', (req, res) => {
+  if (!agentManager.getAgent(req.params.id)) {
+    return res.status(404).json({ error: 'Agent not found' })
+  }
+
+  try {
+    agentManager.removeTask(req.params.id, req.params.taskId)
+    res.status(204).send()
+  } catch (error) {
+    res.status(500).json({
+      error: error instanceof Error ? error.message : 'Failed to remove task',
+    })
+  }
+})
+
+// Run a command in the agent's worktree without a terminal; poll GET .../jobs/:jobId for the outcome
+app.post('/api/agents/:id/jobs', (req, res) => {
+  const agent = agentManager.getAgent(req.params.id)
+  if (!agent) {
+    return res.status(404).json({ error: 'Agent not found' })
+  }
+  if (agent.archivedAt) {
+    return res.status(409).json({ error: 'Agent is archived' })
+  }
+
+  const { command, timeoutMs } = req.body as CreateJobRequest
+  if (typeof command !== 'string' || !command.trim()) {
+    return res.status(400).json({ error: 'command is required' })
+  }
+  if (timeoutMs !== undefined && !(typeof timeoutMs === 'number' && timeoutMs > 0)) {
+    return res.status(400).json({ error: 'timeoutMs must be a positive number' })
+  }
+
+  try {
+    res.status(201).json(agentManager.runJob(req.params.id, { command, timeoutMs }))
+  } catch (error) {
+    res.status(500).json({
+      error: error instanceof Error ? error.message : 'Failed to start job',
+    })
+  }
+})
+
+app.get('/api/agents/:id/jobs', (req, res) => {
+  if (!agentManager.getAgent(req.params.id)) {
+    return res.status(404).json({ error: 'Agent not found' })
+  }
+  res.json({ jobs: agentManager.getJobs(req.params.id) })
+})
+
+app.get('/api/agents/:id/jobs/:jobId', (req, res) => {
+  const job = agentManager.getJob(req.params.id, req.params.jobId)
+  if (!job) {
+    return res.status(404).json({ error: 'Job not found' })
+  }
+  res.json(job)
+})
+
+app.post('/api/agents/:id/jobs/:jobId/cancel', (req, res) => {
+  const job = agentManager.getJob(req.params.id, req.params.jobId)
+  if (!job) {
+    return res.status(404).json({ error: 'Job not found' })
+  }
+  if (job.status !== 'running') {
+    return res.status(409).json({ error: 'Job is not running' })
+  }
+  res.json(agentManager.cancelJob(req.params.id, req.params.jobId))
+})
+
+// Tabs API
+const MAX_OUTPUT_WAIT_MS = 60000
+
+// Tab addressed by :id and :tabId; responds with 404 and returns null if there is none
+function findTab(req: express.Request, res: express.Response): TabInfo | null {
+  const agent = agentManager.getAgent(req.params.id)
+  const tab = agent?.tabs?.find((t) => t.id === req.params.tabId)
+  if (!tab) {
+    res.status(404).json({ error: agent ? 'Tab not found' : 'Agent not found' })
+    return null
+  }
+  return tab
+}
+
+// Longest delay setTimeout supports, larger ones fire at once
+const MAX_TIMER_MS = 2 ** 31 - 1
+
+// Problem with an expect step from a request body; null when the step is valid
+function getExpectStepError(step: ExpectStep): string | null {
+  if (!step || typeof step !== 'object') {
+    return 'step must be an object'
+  }
+  if (step.send !== undefined && typeof step.send !== 'string') {
+    return 'send must be a string'
+  }
+  if (step.expect !== undefined && typeof step.expect !== 'string') {
+    return 'expect must be a string'
+  }
+  for (const key of ['quietMs', 'timeoutMs'] as const) {
+    const value = step[key]
+    if (value !== undefined && !(typeof value === 'number' && value > 0 && value <= MAX_TIMER_MS)) {
+      return `${key} must be a positive number of milliseconds`
+    }
+  }
+  if (step.expect) {
+    try {
+      new RegExp(step.expect)
+    } catch {
+      return `Invalid expect pattern: ${step.expect}`
+    }
+  }
+  return null
+}
+
+app.get('/api/agents/:id/tabs', (req, res) => {
+  const agent = agentManager.getAgent(req.params.id)
+  if (!agent) {
+    return res.status(404).json({ error: 'Agent not found' })
+  }
+  res.json({ tabs: agent.tabs || [] })
+})
+
+app.post('/api/agents/:id/tabs', (req, res) => {
+  if (!agentManager.getAgent(req.params.id)) {
+    return res.status(404).json({ error: 'Agent not found' })
+  }
+
+  try {
+    const { name, profile } = req.body as { name?: string; profile?: string }
+    res.status(201).json(agentManager.createTab(req.params.id, name, profile))
+  } catch (error) {
+    res.status(500).json({
+      error: error instanceof Error ? error.message : 'Failed to create tab',
+    })
+  }
+})
+
+// Rename a tab or change its restart policy
+app.patch('/api/agents/:id/tabs/:tabId', (req, res) => {
+  const tab = findTab(req, res)
+  if (!tab) return
+
+  try {
+    const { name, restartPolicy } = req.body as { name?: string; restartPolicy?: RestartPolicy }
+    if (name !== undefined) {
+      agentManager.renameTab(req.params.id, req.params.tabId, name)
+    }
+    if (restartPolicy !== undefined) {
+      agentManager.setRestartPolicy(req.params.id, req.params.tabId, restartPolicy)
+    }
+    res.json(tab)
+  } catch (error) {
+    res.status(500).json({
+      error: error instanceof Error ? error.message : 'Failed to update tab',
+    })
+  }
+})
+
+app.delete('/api/agents/:id/tabs/:tabId', (req, res) => {
+  if (!findTab(req, res)) return
+
+  try {
+    agentManager.closeTab(req.params.id, req.params.tabId)
+    res.status(204).send()
+  } catch (error) {
+    res.status(500).json({
+      error: error instanceof Error ? error.message : 'Failed to close tab',
+    })
+  }
+})
+
+// Start a tab; it is queued instead when the running tab limits are reached
+app.post('/api/agents/:id/tabs/:tabId/start', (req, res) => {
+  const tab = findTab(req, res)
+  if (!tab) return
+
+  try {
+    agentManager.startTab(req.params.id, req.params.tabId)
+    res.json(tab)
+  } catch (error) {
+    res.status(500).json({
+      error: error instanceof Error ? error.message : 'Failed to start tab',
+    })
+  }
+})
+
+app.post('/api/agents/:id/tabs/:tabId/stop', (req, res) => {
+  const tab = findTab(req, res)
+  if (!tab) return
+
+  agentManager.stopTab(req.params.id, req.params.tabId)
+  res.json(tab)
+})
+
+// Write raw input, e.g. `{"data": "npm test\r"}`. Like broadcast input, a tab a client controls is
+// refused unless `force` is set.
+app.post('/api/agents/:id/tabs/:tabId/input', (req, res) => {
+  if (!findTab(req, res)) return
+
+  const { data, force } = req.body as { data?: string; force?: boolean }
+  if (typeof data !== 'string') {
+    return res.status(400).json({ error: 'data is required' })
+  }
+
+  const pty = agentManager.getPty(req.params.id, req.params.tabId)
+  if (!pty) {
+    return res.status(409).json({ error: 'Tab is not running' })
+  }
+  if (!force && agentManager.getControlOwner(req.params.id, req.params.tabId)) {
+    return res.status(409).json({ error: 'Tab is controlled by another client, set force to write anyway' })
+  }
+  pty.write(data)
+  res.status(204).send()
+})
+
+// Output chunks from ?since=<seq>, at most ?limit=<n>. With ?wait=<ms> and nothing new yet, the
+// request is held until output arrives, the tab stops or the wait ends (long-poll); a tab that isn't
+// running answers at once.
+app.get('/api/agents/:id/tabs/:tabId/output', async (req, res) => {
+  if (!findTab(req, res)) return
+
+  const since = Number(req.query.since ?? 0)
+  const limit = req.query.limit !== undefined ? Number(req.query.limit) : undefined
+  const wait = Math.min(Number(req.query.wait ?? 0), MAX_OUTPUT_WAIT_MS)
+  if (!Number.isInteger(since) || since < 0 || (limit !== undefined && !(Number.isInteger(limit) && limit > 0)) || !(wait >= 0)) {
+    return res.status(400).json({ error: 'since must be a non-negative integer, limit a positive integer and wait a non-negative number' })
+  }
+
+  if (wait > 0) {
+    const controller = new AbortController()
+    res.on('close', () => controller.abort())
+    await agentManager.waitForOutput(req.params.id, req.params.tabId, since, wait, controller.signal)
+    // The client went away while waiting
+    if (controller.signal.aborted) return
+  }
+
+  res.json(agentManager.getOutputSync(req.params.id, req.params.tabId, since, limit))
+})
+
+// Send input to a tab and wait for its output to match a regex or go quiet; a timeout is a result, not an error.
+// Like raw input, sending to a tab a client controls is refused unless `force` is set.
+app.post('/api/agents/:id/tabs/:tabId/expect', async (req, res) => {
+  if (!findTab(req, res)) return
+
+  const step = req.body as ExpectStep
+  const stepError = getExpectStepError(step)
+  if (stepError) {
+    return res.status(400).json({ error: stepError })
+  }
+  if (!agentManager.getPty(req.params.id, req.params.tabId)) {
+    return res.status(409).json({ error: 'Tab is not running' })
+  }
+  const { force } = req.body as { force?: boolean }
+  if (step.send && !force && agentManager.getControlOwner(req.params.id, req.params.tabId)) {
+    return res.status(409).json({ error: 'Tab is controlled by another client, set force to write anyway' })
+  }
+
+  try {
+    const controller = new AbortController()
+    res.on('close', () => controller.abort())
+    const result = await agentManager.expect(req.params.id, req.params.tabId, step, controller.signal)
+    // The client went away while waiting
+    if (controller.signal.aborted) return
+    res.json(result)
+  } catch (error) {
+    res.status(500).json({
+      error: error instanceof Error ? error.message : 'Expect failed',
+    })
+  }
+})
+
+app.post('/api/agents/:id/tabs/:tabId/expect-sequence', async (req, res) => {
+  if (!findTab(req, res)) return
+
+  const { steps, force } = req.body as ExpectSequenceRequest
+  if (!Array.isArray(steps) || steps.length === 0) {
+    return res.status(400).json({ error: 'steps must be a non-empty array' })
+  }
+  for (const [index, step] of steps.entries()) {
+    const stepError = getExpectStepError(step)
+    if (stepError) {
+      return res.status(400).json({ error: `Step ${index + 1}: ${stepError}` })
+    }
+  }
+  if (!agentManager.getPty(req.params.id, req.params.tabId)) {
+    return res.status(409).json({ error: 'Tab is not running' })
+  }
+  if (steps.some(step => step.send) && !force && agentManager.getControlOwner(req.params.id, req.params.tabId)) {
+    return res.status(409).json({ error: 'Tab is controlled by another client, set force to write anyway' })
+  }
+
+  try {
+    const controller = new AbortController()
+    res.on('close', () => controller.abort())
+    const result = await agentManager.expectSequence(req.params.id, req.params.tabId, steps, controller.signal)
+    // The client went away while waiting
+    if (controller.signal.aborted) return
+    res.json(result)
+  } catch (error) {
+    res.status(500).json({
+      error: error instanceof Error ? error.message : 'Expect failed',
+    })
+  }
+})
+
+// Delete agent; refuses with 409 on uncommitted or unmerged work unless ?force=true
 app.delete('/api/agents/:id', async (req, res) => {
+  if (!agentManager.getAgent(req.params.id)) {
+    return res.status(404).json({ error: 'Agent not found' })
+  }
+
   try {
-    await agentManager.deleteAgent(req.params.id)
+    const options: DeleteAgentOptions = {
+      force: req.query.force === 'true',
+      backup: req.query.backup === 'true',
+    }
+
+    if (!options.force) {
+      const check = await agentManager.checkDelete(req.params.id)
+      if (check.dirtyFiles.length > 0 || check.unmergedCommits > 0) {
+        return res.status(409).json({
+          error: 'Agent has uncommitted changes or unmerged commits',
+          ...check,
+        })
+      }
+    }
+
+    await agentManager.deleteAgent(req.params.id, options)
     res.status(204).send()
   } catch (error) {
     console.error('Failed to delete agent:', error)
@@ -77,6 +574,87 @@ app.delete('/api/agents/:id', async (req, res) => {
   }
 })
 
+// Archive agent: stop tabs and remove the worktree, keeping the branch
+app.post('/api/agents/:id/archive', async (req, res) => {
+  try {
+    const agent = await agentManager.archiveAgent(req.params.id)
+    res.json(agent)
+  } catch (error) {
+    console.error('Failed to archive agent:', error)
+    res.status(500).json({
+      error: error instanceof Error ? error.message : 'Failed to archive agent',
+    })
+  }
+})
+
+// Restore archived agent: recreate the worktree from its branch
+app.post('/api/agents/:id/restore', async (req, res) => {
+  try {
+    const agent = await agentManager.restoreAgent(req.params.id)
+    res.json(agent)
+  } catch (error) {
+    console.error('Failed to restore agent:', error)
+    res.status(500).json({
+      error: error instanceof Error ? error.message : 'Failed to restore agent',
+    })
+  }
+})
+
+// Preview what deleting an agent would discard
+app.get('/api/agents/:id/delete-check', async (req, res) => {
+  try {
+    res.json(await agentManager.checkDelete(req.params.id))
+  } catch (error) {
+    res.status(500).json({
+      error: error instanceof Error ? error.message : 'Failed to check agent',
+    })
+  }
+})
+
+// Save the worktree state to refs/aiagent-backup/<id>
+app.post('/api/agents/:id/backup', async (req, res) => {
+  try {
+    const ref = await agentManager.backupAgent(req.params.id)
+    res.json({ ref })
+  } catch (error) {
+    res.status(500).json({
+      error: error instanceof Error ? error.message : 'Failed to back up agent',
+    })
+  }
+})
+
+// Re-run the repo's setup commands in the agent's worktree
+app.post('/api/agents/:id/setup', (req, res) => {
+  try {
+    const agent = agentManager.startSetup(req.params.id)
+    res.json(agent)
+  } catch (error) {
+    res.status(500).json({
+      error: error instanceof Error ? error.message : 'Failed to start setup',
+    })
+  }
+})
+
+// Latest resource usage of an agent's tab processes
+app.get('/api/agents/:id/resources', (req, res) => {
+  if (!agentManager.getAgent(req.params.id)) {
+    return res.status(404).json({ error: 'Agent not found' })
+  }
+  res.json(agentManager.getAgentResources(req.params.id))
+})
+
+// Clear the mark set by a rule
+app.delete('/api/agents/:id/mark', (req, res) => {
+  try {
+    const agent = agentManager.clearMark(req.params.id)
+    res.json(agent)
+  } catch (error) {
+    res.status(500).json({
+      error: error instanceof Error ? error.message : 'Failed to clear mark',
+    })
+  }
+})
+
 // Get git status for an agent
 app.get('/api/agents/:id/status', async (req, res) => {
   try {
@@ -92,7 +670,7 @@ app.get('/api/agents/:id/status', async (req, res) => {
 // Get git diff for an agent
 app.get('/api/agents/:id/diff', async (req, res) => {
   try {
-    const diff = await agentManager.getGitDiff(req.params.id)
+    const diff = await agentManager.getGitDiff(req.params.id, req.query.base === 'true')
     res.json({ diff })
   } catch (error) {
     res.status(500).json({
@@ -142,6 +720,43 @@ app.get('/api/recent-repos', (_req, res) => {
   res.json({ repos: getRecentRepos() })
 })
 
+// List local branches of a repository
+app.get('/api/branches', async (req, res) => {
+  const repo = req.query.repo
+  if (typeof repo !== 'string' || !repo) {
+    return res.status(400).json({ error: 'repo is required' })
+  }
+
+  try {
+    res.json(await agentManager.listBranches(repo))
+  } catch (error) {
+    res.status(500).json({
+      error: error instanceof Error ? error.message : 'Failed to list branches',
+    })
+  }
+})
+
+// List branches and worktrees that can be imported as agents
+app.get('/api/import-candidates', async (req, res) => {
+  const repo = req.query.repo
+  if (typeof repo !== 'string' || !repo) {
+    return res.status(400).json({ error: 'repo is required' })
+  }
+
+  try {
+    res.json(await agentManager.getImportCandidates(repo, req.query.fetch === 'true'))
+  } catch (error) {
+    res.status(500).json({
+      error: error instanceof Error ? error.message : 'Failed to list import candidates',
+    })
+  }
+})
+
+// Launch profiles API
+app.get('/api/launch-profiles', (_req, res) => {
+  res.json({ profiles: agentManager.getLaunchProfiles() })
+})
+
 // Terminal settings API
 app.get('/api/terminal-settings', (_req, res) => {
   res.json(getTerminalSettings())
@@ -159,6 +774,99 @@ app.put('/api/terminal-settings', (req, res) => {
   }
 })
 
+// Per-repo settings API
+app.get('/api/repo-settings', (req, res) => {
+  const repo = req.query.repo
+  if (typeof repo !== 'string' || !repo) {
+    return res.status(400).json({ error: 'repo is required' })
+  }
+  const settings = getRepoSettings(repo)
+  res.json({ ...settings, env: maskEnv(settings.env) })
+})
+
+app.put('/api/repo-settings', (req, res) => {
+  const repo = req.query.repo
+  if (typeof repo !== 'string' || !repo) {
+    return res.status(400).json({ error: 'repo is required' })
+  }
+
+  const { branchTemplate, env, setupCommands, teardownCommands } = req.body as RepoSettings
+  if (branchTemplate !== undefined && typeof branchTemplate !== 'string') {
+    return res.status(400).json({ error: 'branchTemplate must be a string' })
+  }
+  for (const [key, commands] of [['setupCommands', setupCommands], ['teardownCommands', teardownCommands]] as const) {
+    if (commands !== undefined && !(Array.isArray(commands) && commands.every((c) => typeof c === 'string'))) {
+      return res.status(400).json({ error: `${key} must be an array of strings` })
+    }
+  }
+
+  try {
+    // Only touch the settings present in the request
+    const updates: Partial<RepoSettings> = {}
+    if (branchTemplate !== undefined) {
+      updates.branchTemplate = branchTemplate || undefined
+    }
+    if (setupCommands !== undefined) {
+      updates.setupCommands = setupCommands.map((c) => c.trim()).filter(Boolean)
+    }
+    if (teardownCommands !== undefined) {
+      updates.teardownCommands = teardownCommands.map((c) => c.trim()).filter(Boolean)
+    }
+    if (env !== undefined) {
+      updates.env = mergeEnvUpdate(getRepoSettings(repo).env, env)
+    }
+
+    const settings = updateRepoSettings(repo, updates)
+    res.json({ ...settings, env: maskEnv(settings.env) })
+  } catch (error) {
+    res.status(500).json({
+      error: error instanceof Error ? error.message : 'Failed to update repo settings',
+    })
+  }
+})
+
+// Snippets API
+// Snippet fields from a request body; null when name or text is missing
+function parseSnippet(body: Partial<Snippet>): Omit<Snippet, 'id'> | null {
+  const { name, text, tags } = body
+  if (typeof name !== 'string' || !name.trim() || typeof text !== 'string' || !text) {
+    return null
+  }
+  return { name, text, tags: Array.isArray(tags) ? tags.filter((t) => typeof t === 'string') : [] }
+}
+
+app.get('/api/snippets', (_req, res) => {
+  res.json({ snippets: getSnippets() })
+})
+
+app.post('/api/snippets', (req, res) => {
+  const snippet = parseSnippet(req.body)
+  if (!snippet) {
+    return res.status(400).json({ error: 'name and text are required' })
+  }
+  res.status(201).json(addSnippet(snippet))
+})
+
+app.put('/api/snippets/:snippetId', (req, res) => {
+  const snippet = parseSnippet(req.body)
+  if (!snippet) {
+    return res.status(400).json({ error: 'name and text are required' })
+  }
+
+  const updated = updateSnippet(req.params.snippetId, snippet)
+  if (!updated) {
+    return res.status(404).json({ error: 'Snippet not found' })
+  }
+  res.json(updated)
+})
+
+app.delete('/api/snippets/:snippetId', (req, res) => {
+  if (!deleteSnippet(req.params.snippetId)) {
+    return res.status(404).json({ error: 'Snippet not found' })
+  }
+  res.status(204).send()
+})
+
 // Settings API
 app.get('/api/settings', (_req, res) => {
   res.json(agentManager.getConfig())
@@ -166,8 +874,8 @@ app.get('/api/settings', (_req, res) => {
 
 app.put('/api/settings', (req, res) => {
   try {
-    const { logDir, logEnabled } = req.body
-    agentManager.updateConfig({ logDir, logEnabled })
+    const { logDir, logEnabled, branchTemplate } = req.body
+    agentManager.updateConfig({ logDir, logEnabled, branchTemplate })
     res.json(agentManager.getConfig())
   } catch (error) {
     res.status(500).json({
@@ -176,6 +884,53 @@ app.put('/api/settings', (req, res) => {
   }
 })
 
+// Trigger rules API
+app.get('/api/rules', (_req, res) => {
+  res.json({ rules: agentManager.getRules() })
+})
+
+// Replace all rules
+app.put('/api/rules', (req, res) => {
+  try {
+    const { rules } = req.body as { rules: Partial<TriggerRule>[] }
+    if (!Array.isArray(rules)) {
+      return res.status(400).json({ error: 'rules must be an array' })
+    }
+    res.json({ rules: agentManager.setRules(rules) })
+  } catch (error) {
+    res.status(500).json({
+      error: error instanceof Error ? error.message : 'Failed to update rules',
+    })
+  }
+})
+
+app.post('/api/rules', (req, res) => {
+  try {
+    const rule = agentManager.addRule(req.body as Partial<TriggerRule>)
+    res.json(rule)
+  } catch (error) {
+    res.status(500).json({
+      error: error instanceof Error ? error.message : 'Failed to add rule',
+    })
+  }
+})
+
+app.delete('/api/rules/:ruleId', (req, res) => {
+  try {
+    agentManager.deleteRule(req.params.ruleId)
+    res.status(204).send()
+  } catch (error) {
+    res.status(500).json({
+      error: error instanceof Error ? error.message : 'Failed to delete rule',
+    })
+  }
+})
+
+// Recent rule firings, newest first
+app.get('/api/rules/firings', (_req, res) => {
+  res.json({ firings: agentManager.getRuleFirings() })
+})
+
 // SPA fallback - serve index.html for all non-API routes
 if (process.env.NODE_ENV !== 'development') {
   app.get('*', (_req, res) => {
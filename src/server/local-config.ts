@@ -1,25 +1,55 @@
 import * as fs from 'fs'
 import * as path from 'path'
+import { v4 as uuidv4 } from 'uuid'
+import type { AgentTasks, EnvSettings, RestartPolicy, Snippet, TriggerRule } from '../shared/types.js'
 
 export interface TerminalSettings {
   fontFamily: string
   fontSize: number
 }
 
+export interface RepoSettings {
+  branchTemplate?: string // Overrides the global branch name template
+  env?: EnvSettings // Environment for tabs of every agent in the repo
+  setupCommands?: string[] // Run in order in each new worktree, e.g. `npm ci`
+  teardownCommands?: string[] // Run in the worktree before it is removed, e.g. `docker compose down`
+}
+
+export interface PersistedTab {
+  id: string // Kept across restarts so clients can resume from their last seq
+  name: string
+  kind?: 'setup'
+  profile?: string
+  restartPolicy?: RestartPolicy
+  outputBuffer?: string // Last terminal output for recovery
+  nextSeq?: number // Seq of the next chunk, so numbering continues after a restart
+}
+
 export interface PersistedAgent {
   id: string
   name: string
+  description?: string
   sourceRepo: string
   workDir: string
   branch: string
+  baseRef?: string
+  baseCommit?: string
   createdAt: number
-  outputBuffer?: string // Last terminal output for recovery
+  env?: EnvSettings // Environment for this agent's tabs, overrides the repo's
+  tabs?: PersistedTab[] // In tab order
+  profile?: string // Launch profile of the default tab, from before tabs were persisted
+  outputBuffer?: string // Output of the default tab, from before tabs were persisted
+  archivedAt?: number // Set while archived: worktree removed, branch kept
+  tasks?: AgentTasks // Task queue and delivery history
 }
 
 export interface LocalConfig {
   recentRepos: string[] // Recently used source repositories
   terminal: TerminalSettings
   agents: PersistedAgent[] // Persisted agents for recovery
+  repos: Record<string, RepoSettings> // Per-repo settings keyed by absolute repo path
+  rules: TriggerRule[] // Output trigger rules, in evaluation order
+  snippets: Snippet[] // Reusable prompts and commands
 }
 
 const DEFAULT_TERMINAL_SETTINGS: TerminalSettings = {
@@ -31,6 +61,9 @@ const DEFAULT_LOCAL_CONFIG: LocalConfig = {
   recentRepos: [],
   terminal: { ...DEFAULT_TERMINAL_SETTINGS },
   agents: [],
+  repos: {},
+  rules: [],
+  snippets: [],
 }
 
 const MAX_RECENT_REPOS = 10
@@ -45,7 +78,7 @@ export function loadLocalConfig(): LocalConfig {
   const configPath = getConfigPath()
 
   if (!fs.existsSync(configPath)) {
-    return { ...DEFAULT_LOCAL_CONFIG, terminal: { ...DEFAULT_TERMINAL_SETTINGS } }
+    return { ...DEFAULT_LOCAL_CONFIG, terminal: { ...DEFAULT_TERMINAL_SETTINGS }, repos: {} }
   }
 
   try {
@@ -55,10 +88,11 @@ export function loadLocalConfig(): LocalConfig {
       ...DEFAULT_LOCAL_CONFIG,
       ...config,
       terminal: { ...DEFAULT_TERMINAL_SETTINGS, ...config.terminal },
+      repos: { ...config.repos },
     }
   } catch (error) {
     console.warn('Failed to load local config:', error)
-    return { ...DEFAULT_LOCAL_CONFIG, terminal: { ...DEFAULT_TERMINAL_SETTINGS } }
+    return { ...DEFAULT_LOCAL_CONFIG, terminal: { ...DEFAULT_TERMINAL_SETTINGS }, repos: {} }
   }
 }
 
@@ -102,6 +136,19 @@ export function updateTerminalSettings(settings: Partial<TerminalSettings>): Ter
   return config.terminal
 }
 
+// Per-repo settings functions
+export function getRepoSettings(repoPath: string): RepoSettings {
+  return loadLocalConfig().repos[path.resolve(repoPath)] || {}
+}
+
+export function updateRepoSettings(repoPath: string, settings: Partial<RepoSettings>): RepoSettings {
+  const config = loadLocalConfig()
+  const key = path.resolve(repoPath)
+  config.repos[key] = { ...config.repos[key], ...settings }
+  saveLocalConfig(config)
+  return config.repos[key]
+}
+
 // Agent persistence functions
 export function getPersistedAgents(): PersistedAgent[] {
   return loadLocalConfig().agents || []
@@ -111,7 +158,8 @@ export function savePersistedAgent(agent: PersistedAgent): void {
   const config = loadLocalConfig()
   const existingIndex = config.agents.findIndex((a) => a.id === agent.id)
   if (existingIndex >= 0) {
-    config.agents[existingIndex] = agent
+    // Merge so fields saved separately (e.g. the output buffer) are kept
+    config.agents[existingIndex] = { ...config.agents[existingIndex], ...agent }
   } else {
     config.agents.push(agent)
   }
@@ -124,12 +172,90 @@ export function removePersistedAgent(agentId: string): void {
   saveLocalConfig(config)
 }
 
-export function updatePersistedAgentBuffer(agentId: string, outputBuffer: string): void {
+export function updatePersistedAgentEnv(agentId: string, env: EnvSettings): void {
+  const config = loadLocalConfig()
+  const agent = config.agents.find((a) => a.id === agentId)
+  if (agent) {
+    agent.env = env
+    saveLocalConfig(config)
+  }
+}
+
+export function updatePersistedTasks(agentId: string, tasks: AgentTasks): void {
+  const config = loadLocalConfig()
+  const agent = config.agents.find((a) => a.id === agentId)
+  if (agent) {
+    agent.tasks = tasks
+    saveLocalConfig(config)
+  }
+}
+
+export function updatePersistedTabs(agentId: string, tabs: PersistedTab[]): void {
   const config = loadLocalConfig()
   const agent = config.agents.find((a) => a.id === agentId)
   if (agent) {
-    // Only save last 50KB of output buffer
-    agent.outputBuffer = outputBuffer.slice(-50000)
+    agent.tabs = tabs.map((tab) => ({
+      ...tab,
+      // Only save last 50KB of each output buffer
+      outputBuffer: tab.outputBuffer?.slice(-50000) || undefined,
+    }))
+    // Superseded by the per-tab entries
+    delete agent.profile
+    delete agent.outputBuffer
     saveLocalConfig(config)
   }
 }
+
+// Trigger rule functions
+export function getTriggerRules(): TriggerRule[] {
+  return loadLocalConfig().rules || []
+}
+
+export function saveTriggerRules(rules: TriggerRule[]): void {
+  const config = loadLocalConfig()
+  config.rules = rules
+  saveLocalConfig(config)
+}
+
+// Snippet functions
+function normalizeSnippet(snippet: Omit<Snippet, 'id'>): Omit<Snippet, 'id'> {
+  return {
+    name: snippet.name.trim(),
+    text: snippet.text,
+    tags: [...new Set((snippet.tags || []).map((t) => t.trim()).filter(Boolean))],
+  }
+}
+
+export function getSnippets(): Snippet[] {
+  return loadLocalConfig().snippets || []
+}
+
+export function addSnippet(snippet: Omit<Snippet, 'id'>): Snippet {
+  const config = loadLocalConfig()
+  const added = { id: uuidv4(), ...normalizeSnippet(snippet) }
+  config.snippets = [...(config.snippets || []), added]
+  saveLocalConfig(config)
+  return added
+}
+
+// Returns null when there is no snippet with the id
+export function updateSnippet(id: string, snippet: Omit<Snippet, 'id'>): Snippet | null {
+  const config = loadLocalConfig()
+  const index = (config.snippets || []).findIndex((s) => s.id === id)
+  if (index === -1) return null
+
+  config.snippets[index] = { id, ...normalizeSnippet(snippet) }
+  saveLocalConfig(config)
+  return config.snippets[index]
+}
+
+// Returns false when there is no snippet with the id
+export function deleteSnippet(id: string): boolean {
+  const config = loadLocalConfig()
+  const snippets = config.snippets || []
+  if (!snippets.some((s) => s.id === id)) return false
+
+  config.snippets = snippets.filter((s) => s.id !== id)
+  saveLocalConfig(config)
+  return true
+}
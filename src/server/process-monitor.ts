@@ -0,0 +1,132 @@
+import * as fs from 'fs'
+import { execFileSync } from 'child_process'
+import type { ResourceUsage } from '../shared/types.js'
+
+const CLOCK_TICKS = 100 // USER_HZ, the unit of times in /proc/<pid>/stat on Linux
+
+interface ProcessEntry {
+  pid: number
+  ppid: number
+  command: string
+  cpuTicks: number // utime + stime
+  startTicks: number // Since boot
+  rssBytes: number
+}
+
+function getPageSize(): number {
+  try {
+    return Number(execFileSync('getconf', ['PAGESIZE'], { encoding: 'utf-8' }).trim()) || 4096
+  } catch {
+    return 4096
+  }
+}
+
+function readProcessEntry(pid: number, pageSize: number): ProcessEntry | null {
+  try {
+    const stat = fs.readFileSync(`/proc/${pid}/stat`, 'utf-8')
+    // The command is in parentheses and may itself contain spaces and parentheses
+    const open = stat.indexOf('(')
+    const close = stat.lastIndexOf(')')
+    const fields = stat.slice(close + 2).split(' ')
+    return {
+      pid,
+      ppid: Number(fields[1]),
+      command: stat.slice(open + 1, close),
+      cpuTicks: Number(fields[11]) + Number(fields[12]),
+      startTicks: Number(fields[19]),
+      rssBytes: Number(fields[21]) * pageSize,
+    }
+  } catch {
+    // Exited while we were reading
+    return null
+  }
+}
+
+/**
+ * Samples the process trees under given root pids from /proc. CPU usage is measured
+ * between consecutive samples, so the first sample of a tree reports 0%.
+ */
+export class ProcessMonitor {
+  private readonly supported = fs.existsSync('/proc/self/stat')
+  private readonly pageSize = this.supported ? getPageSize() : 4096
+  private lastCpuTicks: Map<number, number> = new Map()
+  private lastUptimeTicks = 0
+
+  isSupported(): boolean {
+    return this.supported
+  }
+
+  /**
+   * Usage of each root pid's process tree, including the root itself; roots that no longer exist are left out
+   */
+  sample(rootPids: number[]): Map<number, ResourceUsage> {
+    const result = new Map<number, ResourceUsage>()
+    if (!this.supported || rootPids.length === 0) return result
+
+    const entries = new Map<number, ProcessEntry>()
+    const children = new Map<number, number[]>()
+    for (const name of fs.readdirSync('/proc')) {
+      if (!/^\d+$/.test(name)) continue
+      const entry = readProcessEntry(Number(name), this.pageSize)
+      if (!entry) continue
+      entries.set(entry.pid, entry)
+      const siblings = children.get(entry.ppid)
+      if (siblings) {
+        siblings.push(entry.pid)
+      } else {
+        children.set(entry.ppid, [entry.pid])
+      }
+    }
+
+    const uptimeTicks = Number(fs.readFileSync('/proc/uptime', 'utf-8').split(' ')[0]) * CLOCK_TICKS
+    const elapsedTicks = this.lastUptimeTicks ? uptimeTicks - this.lastUptimeTicks : 0
+    const cpuTicks = new Map<number, number>()
+
+    for (const rootPid of rootPids) {
+      const root = entries.get(rootPid)
+      if (!root) continue
+
+      const usage: ResourceUsage = { cpuPercent: 0, rssBytes: 0, processCount: 0 }
+      let busyTicks = 0
+      let oldest: ProcessEntry | null = null
+      const pending = [rootPid]
+
+      while (pending.length > 0) {
+        const entry = entries.get(pending.pop()!)
+        if (!entry) continue
+
+        usage.processCount++
+        usage.rssBytes += entry.rssBytes
+        cpuTicks.set(entry.pid, entry.cpuTicks)
+        const lastTicks = this.lastCpuTicks.get(entry.pid)
+        if (lastTicks !== undefined) {
+          busyTicks += entry.cpuTicks - lastTicks
+        } else if (entry.startTicks >= this.lastUptimeTicks) {
+          // Started since the last sample, all of its time falls in this interval
+          busyTicks += entry.cpuTicks
+        }
+
+        if (entry.pid !== rootPid && (!oldest || entry.startTicks < oldest.startTicks)) {
+          oldest = entry
+        }
+        pending.push(...(children.get(entry.pid) || []))
+      }
+
+      if (elapsedTicks > 0) {
+        usage.cpuPercent = Math.max(0, Math.round((busyTicks / elapsedTicks) * 100))
+      }
+      if (oldest) {
+        usage.longestRunning = {
+          pid: oldest.pid,
+          command: oldest.command,
+          elapsedMs: Math.round(((uptimeTicks - oldest.startTicks) / CLOCK_TICKS) * 1000),
+        }
+      }
+      result.set(rootPid, usage)
+    }
+
+    this.lastCpuTicks = cpuTicks
+    this.lastUptimeTicks = uptimeTicks
+    return result
+  }
+}
@@ -0,0 +1,141 @@
+import { execFileSync } from 'child_process'
+import { randomUUID } from 'crypto'
+import * as fs from 'fs'
+import * as os from 'os'
+import * as path from 'path'
+
+// Dedicated tmux server, keeps agent sessions apart from the user's own sessions
+const TMUX_SOCKET = 'aiagent-console'
+const SESSION_PREFIX = 'aiagent-'
+
+// Loads the env file passed as $0, removes it and runs the session's command
+const ENV_LOADER = '. "$0"; rm -f "$0"; exec "$@"'
+
+export interface TmuxLaunchOptions {
+  cwd: string
+  cols: number
+  rows: number
+  env: Record<string, string> // Set in the session's command only, through a file instead of the command line
+  command: string
+  args: string[]
+}
+
+export function getSessionName(agentId: string, tabId: string): string {
+  return `${SESSION_PREFIX}${agentId}-${tabId}`
+}
+
+/**
+ * List the names of running agent sessions; empty when the tmux server is not running
+ */
+export function listSessions(): string[] {
+  try {
+    const stdout = execFileSync('tmux', ['-L', TMUX_SOCKET, 'list-sessions', '-F', '#{session_name}'], {
+      encoding: 'utf-8',
+      stdio: ['ignore', 'pipe', 'ignore'],
+    })
+    return stdout.split('\n').filter((name) => name.startsWith(SESSION_PREFIX))
+  } catch {
+    return []
+  }
+}
+
+/**
+ * Whether a session with exactly this name is running
+ */
+export function hasSession(name: string): boolean {
+  try {
+    execFileSync('tmux', ['-L', TMUX_SOCKET, 'has-session', '-t', `=${name}`], { stdio: 'ignore' })
+    return true
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Kill a session and the processes running in it; a missing session is ignored
+ */
+export function killSession(name: string): void {
+  try {
+    execFileSync('tmux', ['-L', TMUX_SOCKET, 'kill-session', '-t', `=${name}`], { stdio: 'ignore' })
+  } catch {
+    // Session already ended
+  }
+}
+
+/**
+ * Pid of the process running in the session's pane, the root of the tab's process tree
+ */
+export function getPanePid(name: string): number | null {
+  try {
+    const stdout = execFileSync('tmux', ['-L', TMUX_SOCKET, 'list-panes', '-t', `=${name}`, '-F', '#{pane_pid}'], {
+      encoding: 'utf-8',
+      stdio: ['ignore', 'pipe', 'ignore'],
+    })
+    return Number(stdout.split('\n')[0]) || null
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Exit status of the session's process once it ended; null while it runs or when the session is gone.
+ * Sessions keep dead panes (remain-on-exit), so the status can still be read after the client exited.
+ */
+export function getPaneExit(name: string): { exitCode: number; signal?: number } | null {
+  try {
+    const stdout = execFileSync('tmux', [
+      '-L', TMUX_SOCKET, 'display-message', '-p', '-t', `=${name}:`,
+      '#{pane_dead} #{pane_dead_status} #{pane_dead_signal}',
+    ], {
+      encoding: 'utf-8',
+      stdio: ['ignore', 'pipe', 'ignore'],
+    })
+    const [dead, status, signal] = stdout.trim().split(' ')
+    if (dead !== '1') return null
+    return { exitCode: Number(status) || 0, signal: Number(signal) || undefined }
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Write variables to a file only the owner can read, for the session's command to load and remove.
+ * Values, secrets among them, would be visible to every local user on the tmux command line.
+ */
+function writeEnvFile(env: Record<string, string>): string {
+  const lines = Object.entries(env)
+    .filter(([key]) => /^[A-Za-z_][A-Za-z0-9_]*$/.test(key))
+    .map(([key, value]) => `export ${key}='${value.replace(/'/g, `'\\''`)}'\n`)
+  const file = path.join(os.tmpdir(), `aiagent-env-${randomUUID()}`)
+  fs.writeFileSync(file, lines.join(''), { mode: 0o600, flag: 'wx' })
+  return file
+}
+
+/**
+ * Arguments for a tmux client that attaches to the session, creating it with the command if it doesn't exist
+ */
+export function getAttachArgs(name: string, options: TmuxLaunchOptions): string[] {
+  // A running session is attached as is, only a new one runs the command and needs its environment
+  let command = [options.command, ...options.args]
+  if (Object.keys(options.env).length > 0 && !hasSession(name)) {
+    command = ['/bin/sh', '-c', ENV_LOADER, writeEnvFile(options.env), ...command]
+  }
+  // Hook commands don't expand formats in targets, run-shell does; -b because it calls back into the server
+  const detach = `run-shell -b "tmux -L ${TMUX_SOCKET} detach-client -s =#{session_name}"`
+
+  return [
+    '-L', TMUX_SOCKET,
+    // The tab bar already shows what the status line would
+    'start-server', ';', 'set-option', '-g', 'status', 'off', ';',
+    // Keep a dead pane and detach its client, so the exit status can be read before the session is killed.
+    // A process that exits before the client attached is caught when it attaches.
+    'set-option', '-g', 'remain-on-exit', 'on', ';',
+    'set-hook', '-gw', 'pane-died', detach, ';',
+    'set-hook', '-g', 'client-attached', `if-shell -F '#{pane_dead}' '${detach}'`, ';',
+    // new-session takes all remaining arguments as the command, so it has to come last
+    'new-session', '-A', '-s', name,
+    '-x', String(options.cols), '-y', String(options.rows),
+    '-c', options.cwd,
+    ...command,
+  ]
+}
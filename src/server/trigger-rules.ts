@@ -0,0 +1,121 @@
+import * as path from 'path'
+import { v4 as uuidv4 } from 'uuid'
+import type { Agent, RuleAction, RuleFiring, TriggerRule } from '../shared/types.js'
+
+export const DEFAULT_COOLDOWN_MS = 5000 // Keeps redrawn prompts and echoed input from firing a rule repeatedly
+const WEBHOOK_TIMEOUT_MS = 10000
+const ACTION_TYPES: RuleAction['type'][] = ['notify', 'mark', 'send-input', 'stop-tab', 'webhook']
+
+export interface CompiledRule {
+  rule: TriggerRule
+  regex: RegExp
+}
+
+function validateAction(action: RuleAction): RuleAction {
+  if (!action || !ACTION_TYPES.includes(action.type)) {
+    throw new Error(`Invalid rule action: ${action?.type}`)
+  }
+
+  switch (action.type) {
+    case 'send-input':
+      if (typeof action.input !== 'string' || !action.input) {
+        throw new Error('send-input action requires input')
+      }
+      return { type: 'send-input', input: action.input }
+    case 'webhook':
+      if (typeof action.url !== 'string' || !/^https?:\/\//.test(action.url)) {
+        throw new Error(`Invalid webhook URL: ${action.url}`)
+      }
+      return { type: 'webhook', url: action.url }
+    case 'notify':
+      return { type: 'notify', message: action.message || undefined }
+    case 'mark':
+      return { type: 'mark', label: action.label || undefined }
+    default:
+      return { type: action.type }
+  }
+}
+
+/**
+ * Check a rule from an API request and fill in defaults; throws on invalid input
+ */
+export function validateRule(input: Partial<TriggerRule>): TriggerRule {
+  const name = typeof input.name === 'string' ? input.name.trim() : ''
+  if (!name) {
+    throw new Error('Rule name is required')
+  }
+  if (typeof input.pattern !== 'string' || !input.pattern) {
+    throw new Error(`Rule ${name} has no pattern`)
+  }
+  try {
+    new RegExp(input.pattern)
+  } catch {
+    throw new Error(`Rule ${name} has an invalid pattern: ${input.pattern}`)
+  }
+  if (!Array.isArray(input.actions) || input.actions.length === 0) {
+    throw new Error(`Rule ${name} has no actions`)
+  }
+  if (input.cooldownMs !== undefined && (typeof input.cooldownMs !== 'number' || input.cooldownMs < 0)) {
+    throw new Error(`Rule ${name} has an invalid cooldown: ${input.cooldownMs}`)
+  }
+
+  return {
+    id: input.id || uuidv4(),
+    name,
+    pattern: input.pattern,
+    enabled: input.enabled !== false,
+    agentId: input.agentId || undefined,
+    repo: input.repo ? path.resolve(input.repo) : undefined,
+    actions: input.actions.map(validateAction),
+    cooldownMs: input.cooldownMs,
+  }
+}
+
+/**
+ * Compile the enabled rules for matching; rules with a pattern that no longer compiles are skipped
+ */
+export function compileRules(rules: TriggerRule[]): CompiledRule[] {
+  const compiled: CompiledRule[] = []
+  for (const rule of rules) {
+    if (!rule.enabled) continue
+    try {
+      compiled.push({ rule, regex: new RegExp(rule.pattern, 'gi') })
+    } catch {
+      console.warn(`Ignoring rule ${rule.name} with invalid pattern: ${rule.pattern}`)
+    }
+  }
+  return compiled
+}
+
+export function ruleApplies(rule: TriggerRule, agent: Agent): boolean {
+  if (rule.agentId && rule.agentId !== agent.id) return false
+  if (rule.repo && rule.repo !== path.resolve(agent.sourceRepo)) return false
+  return true
+}
+
+/**
+ * First match that ends after newFrom, so text before it only serves to complete matches across data boundaries
+ */
+export function findMatch(regex: RegExp, text: string, newFrom: number): string | null {
+  for (const match of text.matchAll(regex)) {
+    if (match[0] && match.index! + match[0].length > newFrom) {
+      return match[0]
+    }
+  }
+  return null
+}
+
+/**
+ * POST a firing to a webhook; throws on network errors, timeouts and non-2xx responses
+ */
+export async function callWebhook(url: string, firing: RuleFiring): Promise<void> {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(firing),
+    signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+  })
+  if (!response.ok) {
+    throw new Error(`Webhook ${url} responded with ${response.status}`)
+  }
+}
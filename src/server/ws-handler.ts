@@ -1,6 +1,6 @@
 import { WebSocket } from 'ws'
 import { v4 as uuidv4 } from 'uuid'
-import type { WSClientMessage, WSServerMessage, TabInfo } from '../shared/types.js'
+import type { WSClientMessage, WSServerMessage, TabInfo, RestartPolicy, RuleFiring, AgentResources, AgentTasks, BroadcastTarget, JobInfo, JobStream } from '../shared/types.js'
 import type { AgentManager } from './agent-manager.js'
 
 export class WSHandler {
@@ -9,6 +9,7 @@ export class WSHandler {
   private clientId: string
   private attachedAgentId: string | null = null
   private attachedTabId: string | null = null
+  private watchedJob: { agentId: string; jobId: string } | null = null // Job whose output is streamed
   private boundPtyDataHandler: (agentId: string, tabId: string, data: string, seq: number) => void
   private boundAgentsUpdatedHandler: (agents: unknown[]) => void
   private boundAgentStatusHandler: (agentId: string, status: string) => void
@@ -16,6 +17,11 @@ export class WSHandler {
   private boundControlChangedHandler: (agentId: string, tabId: string, newOwnerId: string | null) => void
   private boundTabCreatedHandler: (agentId: string, tab: TabInfo) => void
   private boundTabClosedHandler: (agentId: string, tabId: string) => void
+  private boundRuleFiredHandler: (firing: RuleFiring) => void
+  private boundResourcesHandler: (resources: AgentResources[]) => void
+  private boundTasksUpdatedHandler: (agentId: string, tasks: AgentTasks) => void
+  private boundJobUpdatedHandler: (job: JobInfo) => void
+  private boundJobOutputHandler: (agentId: string, jobId: string, stream: JobStream, data: string) => void
 
   constructor(ws: WebSocket, agentManager: AgentManager) {
     this.ws = ws
@@ -30,6 +36,11 @@ export class WSHandler {
     this.boundControlChangedHandler = this.handleControlChanged.bind(this)
     this.boundTabCreatedHandler = this.handleTabCreated.bind(this)
     this.boundTabClosedHandler = this.handleTabClosed.bind(this)
+    this.boundRuleFiredHandler = this.handleRuleFired.bind(this)
+    this.boundResourcesHandler = this.handleResources.bind(this)
+    this.boundTasksUpdatedHandler = this.handleTasksUpdated.bind(this)
+    this.boundJobUpdatedHandler = this.handleJobUpdated.bind(this)
+    this.boundJobOutputHandler = this.handleJobOutput.bind(this)
 
     this.setupEventListeners()
   }
@@ -56,6 +67,11 @@ export class WSHandler {
     this.agentManager.on('control-changed', this.boundControlChangedHandler)
     this.agentManager.on('tab-created', this.boundTabCreatedHandler)
     this.agentManager.on('tab-closed', this.boundTabClosedHandler)
+    this.agentManager.on('rule-fired', this.boundRuleFiredHandler)
+    this.agentManager.on('resources', this.boundResourcesHandler)
+    this.agentManager.on('tasks-updated', this.boundTasksUpdatedHandler)
+    this.agentManager.on('job-updated', this.boundJobUpdatedHandler)
+    this.agentManager.on('job-output', this.boundJobOutputHandler)
   }
 
   private handlePtyData(agentId: string, tabId: string, data: string, seq: number): void {
@@ -103,6 +119,29 @@ export class WSHandler {
     }
   }
 
+  // Every client hears about firings, e.g. to show notifications for agents it isn't attached to
+  private handleRuleFired(firing: RuleFiring): void {
+    this.send({ type: 'rule-fired', firing })
+  }
+
+  private handleResources(resources: AgentResources[]): void {
+    this.send({ type: 'resources', resources })
+  }
+
+  private handleTasksUpdated(agentId: string, tasks: AgentTasks): void {
+    this.send({ type: 'tasks-updated', agentId, tasks })
+  }
+
+  private handleJobUpdated(job: JobInfo): void {
+    this.send({ type: 'job-updated', job })
+  }
+
+  private handleJobOutput(agentId: string, jobId: string, stream: JobStream, data: string): void {
+    if (this.watchedJob?.agentId === agentId && this.watchedJob.jobId === jobId) {
+      this.send({ type: 'job-output', agentId, jobId, stream, data })
+    }
+  }
+
   private handleMessage(message: WSClientMessage): void {
     switch (message.type) {
       case 'attach':
@@ -114,6 +153,9 @@ export class WSHandler {
       case 'input':
         this.handleInput(message.data, message.tabId)
         break
+      case 'broadcast-input':
+        this.handleBroadcastInput(message.data, message.targets)
+        break
       case 'resize':
         this.handleResize(message.cols, message.rows, message.tabId)
         break
@@ -127,17 +169,23 @@ export class WSHandler {
         this.gainControl()
         break
       case 'create-tab':
-        this.createTab(message.agentId, message.name)
+        this.createTab(message.agentId, message.name, message.profile)
         break
       case 'close-tab':
         this.closeTab(message.agentId, message.tabId)
         break
+      case 'set-restart-policy':
+        this.setRestartPolicy(message.agentId, message.tabId, message.policy)
+        break
       case 'sync-output':
         this.syncOutput(message.agentId, message.tabId, message.fromSeq)
         break
       case 'get-buffer-stats':
         this.getBufferStats(message.agentId, message.tabId)
         break
+      case 'watch-job':
+        this.watchJob(message.agentId, message.jobId)
+        break
     }
   }
 
@@ -200,6 +248,25 @@ export class WSHandler {
     this.send({ type: 'buffer-stats', agentId, tabId, stats })
   }
 
+  // Send the job's output so far, then stream the rest as it arrives
+  private watchJob(agentId: string, jobId: string | null): void {
+    this.watchedJob = null
+    if (!jobId) return
+
+    const job = this.agentManager.getJob(agentId, jobId)
+    if (!job) {
+      this.send({ type: 'error', message: `Job not found: ${jobId}` })
+      return
+    }
+
+    this.watchedJob = { agentId, jobId }
+    for (const stream of ['stdout', 'stderr'] as const) {
+      if (job[stream]) {
+        this.send({ type: 'job-output', agentId, jobId, stream, data: job[stream] })
+      }
+    }
+  }
+
   private detachFromAgent(): void {
     if (!this.attachedAgentId || !this.attachedTabId) return
 
@@ -234,6 +301,16 @@ export class WSHandler {
     }
   }
 
+  private handleBroadcastInput(data: string, targets: BroadcastTarget[]): void {
+    if (!Array.isArray(targets) || targets.length === 0) {
+      this.send({ type: 'error', message: 'No broadcast targets' })
+      return
+    }
+
+    const results = this.agentManager.broadcastInput(data, targets, this.clientId)
+    this.send({ type: 'broadcast-result', results })
+  }
+
   private handleResize(cols: number, rows: number, tabId?: string): void {
     if (!this.attachedAgentId) return
 
@@ -280,9 +357,9 @@ export class WSHandler {
     this.agentManager.stopTab(agentId, targetTabId)
   }
 
-  private createTab(agentId: string, name?: string): void {
+  private createTab(agentId: string, name?: string, profile?: string): void {
     try {
-      this.agentManager.createTab(agentId, name)
+      this.agentManager.createTab(agentId, name, profile)
       // Tab created event will be emitted by agentManager
     } catch (error) {
       this.send({
@@ -304,6 +381,18 @@ export class WSHandler {
     }
   }
 
+  private setRestartPolicy(agentId: string, tabId: string, policy: RestartPolicy): void {
+    try {
+      this.agentManager.setRestartPolicy(agentId, tabId, policy)
+      // agents-updated event will carry the new policy
+    } catch (error) {
+      this.send({
+        type: 'error',
+        message: error instanceof Error ? error.message : 'Failed to set restart policy',
+      })
+    }
+  }
+
   private send(message: WSServerMessage): void {
     if (this.ws.readyState === WebSocket.OPEN) {
       this.ws.send(JSON.stringify(message))
@@ -324,6 +413,12 @@ export class WSHandler {
     this.agentManager.off('control-changed', this.boundControlChangedHandler)
     this.agentManager.off('tab-created', this.boundTabCreatedHandler)
     this.agentManager.off('tab-closed', this.boundTabClosedHandler)
+    this.agentManager.off('rule-fired', this.boundRuleFiredHandler)
+    this.agentManager.off('resources', this.boundResourcesHandler)
+    this.agentManager.off('tasks-updated', this.boundTasksUpdatedHandler)
+    this.agentManager.off('job-updated', this.boundJobUpdatedHandler)
+    this.agentManager.off('job-output', this.boundJobOutputHandler)
+    this.watchedJob = null
     this.attachedAgentId = null
     this.attachedTabId = null
   }
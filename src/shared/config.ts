@@ -1,11 +1,31 @@
 import { readFileSync, existsSync } from 'fs'
 import { join } from 'path'
+import type { LaunchProfile } from './types.js'
+
+// Per-agent thresholds that flag an agent in the sidebar
+export interface ResourceLimits {
+  cpuPercent?: number // 100 is one full core
+  rssMb?: number
+  processCount?: number
+}
 
 export interface Config {
   port: number
   vitePort: number
   logDir?: string // Directory to save terminal logs
   logEnabled?: boolean // Enable terminal logging
+  launchProfiles?: LaunchProfile[] // Commands selectable when creating agents and tabs
+  branchTemplate?: string // Agent branch name, placeholders: {name} {date} {shortId} {user}
+  sessionBackend?: 'pty' | 'tmux' // tmux keeps tab processes running across server restarts
+  quietMs?: number // Output silence after which a busy tab counts as running or waiting
+  promptPatterns?: string[] // Regexes matched against a tab's last output burst to detect prompts
+  resourceSampleMs?: number // Interval for sampling the processes of running tabs, 0 disables it
+  resourceLimits?: ResourceLimits
+  maxRunningTabs?: number // Further tab starts wait in a queue; 0 or unset means no limit
+  maxRunningAgents?: number // Agents with at least one running tab; 0 or unset means no limit
+  outputBufferBytes?: number // Output kept per tab for replay to clients, oldest output is evicted first
+  totalOutputBufferBytes?: number // Across all tabs, evicting the oldest output of any tab; 0 or unset means no limit
+  outputSpillDir?: string // Evicted output is appended to <dir>/<agentId>/<tabId>.log; unset discards it
 }
 
 const DEFAULT_CONFIG: Config = {
@@ -13,6 +33,24 @@ const DEFAULT_CONFIG: Config = {
   vitePort: 5173,
   logDir: '',
   logEnabled: false,
+  launchProfiles: [],
+  branchTemplate: 'agent/{shortId}',
+  sessionBackend: 'pty',
+  quietMs: 2000,
+  promptPatterns: [
+    '\\[y/n\\]',
+    '\\(y/n\\)',
+    '\\(yes/no\\)',
+    'Do you want to',
+    'Press Enter',
+  ],
+  resourceSampleMs: 5000,
+  outputBufferBytes: 4 * 1024 * 1024,
+  resourceLimits: {
+    cpuPercent: 200,
+    rssMb: 4096,
+    processCount: 200,
+  },
 }
 
 export function loadConfig(): Config {
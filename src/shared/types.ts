@@ -1,29 +1,226 @@
 export interface Agent {
   id: string
   name: string
+  description?: string // Free-form notes on what the agent is working on
   sourceRepo: string
   workDir: string
   branch: string
-  status: 'idle' | 'running' | 'stopped'
+  baseRef?: string // Branch, tag or commit the agent's branch was created from
+  baseCommit?: string // Commit hash baseRef resolved to at creation time
+  status: 'idle' | 'queued' | 'running' | 'busy' | 'waiting' | 'stopped' | 'setting-up' | 'setup-failed'
   createdAt: number
+  archivedAt?: number // Set while archived: no worktree or tabs, branch kept
+  mark?: AgentMark // Set by a rule's mark action until cleared
   tabs?: TabInfo[] // Active tabs for this agent
 }
 
+export interface AgentMark {
+  label: string
+  ruleId: string
+  markedAt: number
+}
+
 export interface TabInfo {
   id: string
   name: string
-  status: 'idle' | 'running' | 'stopped'
+  // running: process alive and quiet, busy: producing output, waiting: went quiet on a prompt,
+  // queued: start requested while the running tab limit was reached
+  status: 'idle' | 'queued' | 'running' | 'busy' | 'waiting' | 'stopped'
+  queuePosition?: number // 1-based position in the start queue while queued
+  kind?: 'setup' // Shows the output of the repo's setup commands instead of running a shell
+  profile?: string // Launch profile name; the default shell is used when unset
+  restartPolicy?: RestartPolicy
+  restartCount?: number // Automatic restarts so far
+  nextRestartAt?: number // Set while an automatic restart is pending
+  exitCode?: number // Exit code of the last process that ran in this tab
+  signal?: number // Signal that terminated the last process, if any
+}
+
+// What to do when a tab's process exits on its own
+export interface RestartPolicy {
+  mode: 'never' | 'on-failure' | 'always'
+  maxRetries?: number // Consecutive restarts before giving up
+  backoffMs?: number // Delay before the first restart, doubled after each consecutive one
+}
+
+// Named command to launch in a tab instead of the default shell
+export interface LaunchProfile {
+  name: string
+  command: string
+  args?: string[]
+  env?: Record<string, string>
+  cwd?: string // Working subdirectory, relative to the agent's worktree
+  restartPolicy?: RestartPolicy // Default policy for tabs using this profile
+  promptPatterns?: string[] // Regexes marking the tab as waiting for input, replace Config.promptPatterns
+}
+
+// Environment variable injected into tab processes
+export interface EnvVar {
+  name: string
+  value: string
+  secret?: boolean // Value is masked in API responses
+}
+
+// Per-repo or per-agent environment: envFile is loaded first, then vars override it
+export interface EnvSettings {
+  vars?: EnvVar[]
+  envFile?: string // Path to a .env file; relative to the source repo (repo) or worktree (agent)
 }
 
 export interface CreateAgentRequest {
   name: string
   sourceRepo: string
+  profile?: string // Launch profile for the default tab
+  baseRef?: string // Defaults to the source repo's current HEAD
+  branch?: string // Explicit branch name, overrides the branch name template
+}
+
+// Reusable prompt or command; {{variable}} placeholders are filled in before insertion
+export interface Snippet {
+  id: string
+  name: string
+  text: string
+  tags: string[]
+}
+
+// Follow-up instruction for an agent, typed into its first tab when the tab is idle
+export interface QueuedTask {
+  id: string
+  text: string
+  createdAt: number
+}
+
+export interface DeliveredTask extends QueuedTask {
+  tabId: string
+  deliveredAt: number
+}
+
+export interface AgentTasks {
+  pending: QueuedTask[] // In delivery order
+  delivered: DeliveredTask[] // Most recent last
+}
+
+// Create several agents at once: one per task, or count agents named "<name> 1" to "<name> N"
+export interface BatchCreateAgentsRequest {
+  sourceRepo: string
+  profile?: string
+  baseRef?: string
+  tasks?: string[] // Agents are named from the first line of their task, which also becomes the description
+  count?: number
+  name?: string // Base name, required with count
+  task?: string // Same task for every agent created by count, e.g. for best-of-N runs
+  sendTasks?: boolean // Type each task into its agent's first tab once the process is ready
+}
+
+export interface BatchCreateAgentsResponse {
+  agents: Agent[]
+  errors: { index: number; name: string; error: string }[] // Entries that failed, the rest are still created
+}
+
+// Adopt existing work as an agent: set exactly one of branch or worktreePath
+export interface ImportAgentRequest {
+  name: string
+  sourceRepo: string
+  branch?: string // Local or <remote>/<branch> name, checked out into a new worktree
+  worktreePath?: string // Existing worktree of sourceRepo, used in place
+  profile?: string
+}
+
+export interface ImportCandidates {
+  branches: {
+    name: string
+    remote: boolean
+    worktreePath?: string // Set when the branch is already checked out somewhere
+    agentId?: string // Set when an agent already uses the branch
+  }[]
+  worktrees: {
+    path: string
+    head: string
+    branch?: string
+    main: boolean
+    agentId?: string
+  }[]
+}
+
+// Work that deleting an agent would discard or leave unmerged
+export interface DeleteCheck {
+  dirtyFiles: string[] // `git status --porcelain` lines of uncommitted changes
+  unmergedCommits: number // Commits on the agent branch that are not in its base branch
+}
+
+export interface DeleteAgentOptions {
+  force?: boolean // Delete despite uncommitted changes, unmerged commits or failing teardown commands
+  backup?: boolean // Save the worktree state to refs/aiagent-backup/<id> first
+}
+
+// Action fired when a rule's pattern matches tab output
+export type RuleAction =
+  | { type: 'notify'; message?: string } // Defaults to the rule name
+  | { type: 'mark'; label?: string } // Defaults to the rule name
+  | { type: 'send-input'; input: string } // Written to the tab, include \r to press Enter
+  | { type: 'stop-tab' }
+  | { type: 'webhook'; url: string } // Receives the RuleFiring as a JSON POST
+
+// Regex rule on tab output; applies to every agent unless scoped to an agent or a repo
+export interface TriggerRule {
+  id: string
+  name: string
+  pattern: string // Matched case-insensitively against output with escape sequences removed
+  enabled: boolean
+  agentId?: string
+  repo?: string // Absolute source repo path
+  actions: RuleAction[]
+  cooldownMs?: number // Minimum time between firings in the same tab
+}
+
+export interface RuleFiring {
+  ruleId: string
+  ruleName: string
+  agentId: string
+  agentName: string
+  tabId: string
+  match: string
+  actions: RuleAction['type'][]
+  firedAt: number
+  notify?: string // Notification text, when the rule has a notify action
+  error?: string // Set when an action failed
+}
+
+// Resource usage of a process tree, sampled from /proc
+export interface ResourceUsage {
+  cpuPercent: number // Since the previous sample; 100 is one full core
+  rssBytes: number
+  processCount: number
+  longestRunning?: {
+    pid: number
+    command: string
+    elapsedMs: number
+  } // Oldest process below the tab's shell or command
+}
+
+export interface AgentResources {
+  agentId: string
+  total: ResourceUsage // All running tabs together
+  tabs: Record<string, ResourceUsage> // By tab id
+  warnings: string[] // Thresholds from Config.resourceLimits that the total exceeds
+  sampledAt: number
+}
+
+export interface UpdateAgentRequest {
+  name?: string
+  description?: string
+  branch?: string // Renames the agent's branch in its worktree
 }
 
 export interface AgentListResponse {
   agents: Agent[]
 }
 
+export interface BranchListResponse {
+  branches: string[]
+  current: string
+}
+
 // Output chunk with sequence number for incremental sync
 export interface OutputChunk {
   seq: number
@@ -31,12 +228,74 @@ export interface OutputChunk {
   timestamp: number
 }
 
+// One step of tab automation: optionally send input, then wait for output to match or go quiet
+export interface ExpectStep {
+  send?: string // Written to the tab as is, e.g. `npm test\r`
+  expect?: string // Regex matched against the step's output with ANSI escape sequences removed
+  quietMs?: number // Without expect: done once there was no output for this long, defaults to Config.quietMs
+  timeoutMs?: number // Defaults to 30 seconds
+}
+
+export interface ExpectResult {
+  outcome: 'matched' | 'quiet' | 'timeout' | 'exited'
+  match?: string // Text matched by expect
+  groups?: string[] // Capture groups of the match
+  output: string // Output of the step with ANSI escape sequences removed
+  fromSeq: number // Seq of the first chunk produced by the step
+  toSeq: number // Seq of the last chunk produced by the step, fromSeq - 1 if there was none
+  startedAt: number
+  durationMs: number
+}
+
+// Steps run in order; the sequence stops at the first step that times out or whose process exits
+export interface ExpectSequenceRequest {
+  steps: ExpectStep[]
+  force?: boolean // Send even when another client controls the tab
+}
+
+export interface ExpectSequenceResponse {
+  results: ExpectResult[]
+  completed: boolean // Every step matched or went quiet
+}
+
+// Command run once in an agent's worktree without a terminal, e.g. lint, tests or a build
+export type JobStatus = 'running' | 'succeeded' | 'failed' | 'cancelled' | 'timed-out'
+
+export type JobStream = 'stdout' | 'stderr'
+
+export interface JobInfo {
+  id: string
+  agentId: string
+  command: string
+  status: JobStatus
+  exitCode: number | null // null while running and when ended by a signal
+  signal: string | null
+  startedAt: number
+  finishedAt?: number
+  durationMs?: number
+  truncated: boolean // Earlier stdout or stderr was dropped to stay within the size limit
+}
+
+export interface Job extends JobInfo {
+  stdout: string
+  stderr: string
+}
+
+export interface CreateJobRequest {
+  command: string
+  timeoutMs?: number // The job is killed and ends as timed-out after this long
+}
+
 // Buffer statistics for debugging/display
 export interface BufferStats {
   chunkCount: number
-  totalSize: number
+  totalSize: number // Bytes of output in the buffer
   firstSeq: number
   lastSeq: number
+  limitBytes: number // Config.outputBufferBytes
+  evictedChunks: number // Dropped from the buffer since the tab was created or restored
+  evictedBytes: number
+  spillPath?: string // File evicted output was appended to
 }
 
 // Response for output sync API
@@ -47,18 +306,34 @@ export interface OutputSyncResponse {
 }
 
 // WebSocket message types
+// Target of broadcast input; without tabId the agent's first terminal tab
+export interface BroadcastTarget {
+  agentId: string
+  tabId?: string
+}
+
+export interface BroadcastResult {
+  agentId: string
+  tabId?: string
+  delivered: boolean
+  reason?: string // Why the input was not written
+}
+
 export type WSClientMessage =
   | { type: 'attach'; agentId: string; tabId?: string; fromSeq?: number }
   | { type: 'detach' }
   | { type: 'input'; data: string; tabId?: string }
+  | { type: 'broadcast-input'; data: string; targets: BroadcastTarget[] }
   | { type: 'resize'; cols: number; rows: number; tabId?: string }
   | { type: 'start'; agentId: string; tabId?: string }
   | { type: 'stop'; agentId: string; tabId?: string }
   | { type: 'gain-control' }
-  | { type: 'create-tab'; agentId: string; name?: string }
+  | { type: 'create-tab'; agentId: string; name?: string; profile?: string }
   | { type: 'close-tab'; agentId: string; tabId: string }
+  | { type: 'set-restart-policy'; agentId: string; tabId: string; policy: RestartPolicy }
   | { type: 'sync-output'; agentId: string; tabId: string; fromSeq: number }
   | { type: 'get-buffer-stats'; agentId: string; tabId: string }
+  | { type: 'watch-job'; agentId: string; jobId: string | null } // Stream a job's output, null stops
 
 export type WSServerMessage =
   | { type: 'output'; data: string; tabId?: string; seq: number }
@@ -73,3 +348,9 @@ export type WSServerMessage =
   | { type: 'agents-updated'; agents: Agent[] }
   | { type: 'control-changed'; hasControl: boolean }
   | { type: 'buffer-stats'; agentId: string; tabId: string; stats: BufferStats }
+  | { type: 'rule-fired'; firing: RuleFiring }
+  | { type: 'resources'; resources: AgentResources[] }
+  | { type: 'tasks-updated'; agentId: string; tasks: AgentTasks }
+  | { type: 'broadcast-result'; results: BroadcastResult[] }
+  | { type: 'job-updated'; job: JobInfo }
+  | { type: 'job-output'; agentId: string; jobId: string; stream: JobStream; data: string }